@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
 import {
   Home,
   Settings,
@@ -9,103 +9,282 @@ import {
   Upload,
   ChevronDown,
   ChevronUp,
-  Search
+  Search,
+  Download,
+  Columns,
+  BarChart2,
+  Scale,
+  LayoutGrid,
+  List,
+  Map as MapIcon,
+  Undo2,
+  Redo2
 } from 'lucide-react'
 import Papa from 'papaparse'
-import { supabase } from './utils/supabase'
+import { repository } from './utils/repository'
+import { createHouseStore, mergeHouse } from './utils/houseSync'
+import type { HouseStore } from './utils/houseSync'
+import { houseCache } from './utils/houseCache'
+import type { SyncState } from './types/sync'
+import SyncStatusPanel from './components/SyncStatusPanel'
 import type { House } from './types/house'
-import { v4 as uuidV4 } from 'uuid'
-
-const HouseRatingSystem = () => {
-  const [weights, setWeights] = useState({
-    garageSpaces: 9,
-    walkInCloset: 8,
-    kitchenIsland: 8,
-    distance: 9,
-    yardMaintenance: 8,
-    hoaFees: 6,
-    size: 4,
-    yearBuilt: 2,
-    price: 2
-  })
+import type { HouseholdMember, HouseholdSession } from './types/household'
+import HouseholdMenu from './components/HouseholdMenu'
+import { loadHouseholdMembers } from './utils/households'
+import type { HouseActivity } from './types/activity'
+import {
+  describeRemoteChange,
+  editedFields,
+  fieldLabel,
+  maxActivity,
+  memberName,
+  timeAgo
+} from './utils/activity'
+import RecentActivity from './components/RecentActivity'
+import ValidatedInput from './components/ValidatedInput'
+import TrashModal from './components/TrashModal'
+import UndoToast from './components/UndoToast'
+import type { HouseChange, UndoEntry } from './types/undo'
+import {
+  emptyUndoHistory,
+  forgetHouse,
+  forgetWeights,
+  houseEntry,
+  isDeleted,
+  recordUndo,
+  redoStep,
+  undoStep,
+  undoTarget,
+  weightsEntry
+} from './utils/undo'
+import type { HouseInputs } from './types/validation'
+import {
+  coerceField,
+  houseSchema,
+  normalizeHouse,
+  validateHouse
+} from './utils/validation'
+import type { Weights } from './types/scoring'
+import {
+  buildCriteria,
+  defaultCriteria,
+  defaultWeights,
+  weightLabel,
+  scoreBreakdown
+} from './utils/scoring'
+import ScoreBreakdownPanel from './components/ScoreBreakdownPanel'
+import WeightProfileSelector from './components/WeightProfileSelector'
+import ConsensusPanel from './components/ConsensusPanel'
+import CsvImportWizard from './components/CsvImportWizard'
+import { createEmptyHouse } from './utils/house'
+import {
+  averageCommuteMinutes,
+  defaultDestination,
+  findCommute,
+  formatCommute,
+  migrateLegacyDistance,
+  setCommute
+} from './utils/commute'
+import {
+  createDestination,
+  deleteDestination,
+  loadDestinations,
+  saveDestination
+} from './utils/destinations'
+import DestinationSettings from './components/DestinationSettings'
+import FinanceSettingsPanel from './components/FinanceSettingsPanel'
+import type { FinanceSettings } from './types/finance'
+import FilterPanel from './components/FilterPanel'
+import ComparisonModal from './components/ComparisonModal'
+import SensitivityModal from './components/SensitivityModal'
+import WeightElicitationModal from './components/WeightElicitationModal'
+import HouseTimeline from './components/HouseTimeline'
+import StatusBoard from './components/StatusBoard'
+import TourNotesEditor from './components/TourNotesEditor'
+import TourNotesSummary from './components/TourNotesSummary'
+import { droppedPhotos, hasTourNotes, withoutPhotos } from './utils/tour'
+import { deleteTourPhoto } from './utils/tourPhotos'
+import MapView from './components/MapView'
+import { hasLocation } from './utils/geo'
+import {
+  geocodeQuery,
+  geocoder,
+  needsGeocoding,
+  wait
+} from './utils/mapProviders'
+import CustomAttributeSettings from './components/CustomAttributeSettings'
+import CustomAttributeFields from './components/CustomAttributeFields'
+import type {
+  CustomAttribute,
+  CustomAttributeType
+} from './types/customAttribute'
+import {
+  createCustomAttribute,
+  customAttributeKey,
+  deleteCustomAttribute,
+  formatCustomValue,
+  loadCustomAttributes,
+  readCustomValue,
+  saveCustomAttribute,
+  setCustomValue
+} from './utils/customAttributes'
+import type { HouseStatus } from './types/status'
+import {
+  allowedTransitions,
+  canTransition,
+  houseStatuses,
+  statusColors,
+  statusLabels
+} from './utils/status'
+import HistoryBadges from './components/HistoryBadges'
+import type { HouseEvent } from './types/history'
+import {
+  createAddedEvent,
+  diffTrackedFields,
+  loadHouseHistory,
+  saveHouseEvents,
+  summarizeHistory
+} from './utils/history'
+import { buildComparisonRows, maxCompared } from './utils/comparison'
+import type { HouseFilter, SavedFilter } from './types/filter'
+import {
+  createSavedFilter,
+  deleteSavedFilter,
+  emptyFilter,
+  evaluateFilter,
+  loadSavedFilters,
+  saveSavedFilter
+} from './utils/filters'
+import {
+  defaultFinanceSettings,
+  formatMonthly,
+  monthlyCost
+} from './utils/mortgage'
+import type { Destination } from './types/commute'
+import { exportHeader, getImportFields } from './utils/csvImport'
+import { createKeyedDebounce } from './utils/debounce'
+import {
+  downloadFile,
+  exportFileName,
+  scoredHousesToCsv,
+  scoredHousesToJson
+} from './utils/export'
+import {
+  backupToRows,
+  backupTourNotes,
+  createBackup,
+  parseBackup,
+  withTourNotes
+} from './utils/backup'
+import type { TourNotes, TourPhoto } from './types/tour'
+import type { WeightProfile } from './types/weightProfile'
+import type { Aggregation } from './types/consensus'
+import { scoreConsensus } from './utils/consensus'
+import {
+  createWeightProfile,
+  defaultBudgetLimit,
+  deleteWeightProfile,
+  loadWeightProfiles,
+  saveWeightProfile,
+  weightPresets
+} from './utils/weightProfiles'
+
+const HouseRatingSystem = ({ session }: { session: HouseholdSession }) => {
+  const householdId = session.household.id
+  const userId = session.userId
+  const [weights, setWeights] = useState<Weights>(defaultWeights)
 
-  const [houses, setHouses] = useState<House[]>([])
+  // Every house the store holds, including the trash; `houses` is the rest.
+  const [allHouses, setAllHouses] = useState<House[]>([])
+  const houses = useMemo(
+    () => allHouses.filter((h) => !isDeleted(h)),
+    [allHouses]
+  )
+  const trashedHouses = useMemo(() => allHouses.filter(isDeleted), [allHouses])
+  const [showTrash, setShowTrash] = useState(false)
+  const [undoHistory, setUndoHistory] = useState(emptyUndoHistory)
+  const [toast, setToast] = useState<UndoEntry | null>(null)
+  const importChanges = useRef<HouseChange[]>([])
+  const [sync, setSync] = useState<SyncState>({
+    status: 'syncing',
+    pending: [],
+    failed: [],
+    last_synced_at: null
+  })
+  const houseStore = useRef<HouseStore | null>(null)
+  // Photo paths deleted from storage, kept out of anything undo restores.
+  const deletedPhotos = useRef(new Set<string>())
+  // Name edits and slider drags save once they settle, like profiles do.
+  const [destinationSaves] = useState(() => createKeyedDebounce(500))
+  const [attributeSaves] = useState(() => createKeyedDebounce(500))
+  const [activity, setActivity] = useState<HouseActivity[]>([])
+  const [members, setMembers] = useState<HouseholdMember[]>([])
+  const [history, setHistory] = useState<HouseEvent[]>([])
   const [sortBy, setSortBy] = useState('score')
+  const [view, setView] = useState<'list' | 'board' | 'map'>('list')
+  const [isGeocoding, setIsGeocoding] = useState(false)
   const [uploadError, setUploadError] = useState('')
+  const [csvImport, setCsvImport] = useState<{
+    fileName: string
+    headers: string[]
+    rows: Record<string, string>[]
+    tourNotes?: Map<string, TourNotes>
+  } | null>(null)
   const [showAddForm, setShowAddForm] = useState(false)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [showComparison, setShowComparison] = useState(false)
+  const [showSensitivity, setShowSensitivity] = useState(false)
+  const [showElicitation, setShowElicitation] = useState(false)
   const [editingHouse, setEditingHouse] = useState<House | null>(null)
-  const [budgetLimit, setBudgetLimit] = useState(600000)
+  const [budgetLimit, setBudgetLimit] = useState(defaultBudgetLimit)
+  const [profiles, setProfiles] = useState<WeightProfile[]>([])
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null)
+  const [aggregation, setAggregation] = useState<Aggregation>('average')
+  const [rankByConsensus, setRankByConsensus] = useState(false)
+  const [destinations, setDestinations] = useState<Destination[]>([])
+  const [attributes, setAttributes] = useState<CustomAttribute[]>([])
+  const [finance, setFinance] = useState<FinanceSettings>(
+    defaultFinanceSettings
+  )
   const [isSettingsCollapsed, setIsSettingsCollapsed] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
+  const [filter, setFilter] = useState<HouseFilter>(emptyFilter)
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([])
 
-  const emptyHouse = {
-    id: uuidV4(),
-    address: '',
-    city: '',
-    price: 0,
-    bedrooms: 0,
-    bathrooms: 0,
-    size: 0,
-    style: '',
-    year_built: 0,
-    garage_spaces: 0,
-    walk_in_closet: false,
-    kitchen_island: false,
-    yard_maintenance: false,
-    sold: false,
-    hoa_fee: 0,
-    distance: '',
-    calculated_score: 0,
-    thumbnail_url: ''
-  } as House
+  const emptyHouse = createEmptyHouse()
 
   const [formData, setFormData] = useState(emptyHouse)
+  // Raw text per field while typing, so "1." or "abc" show as typed while
+  // formData only ever holds coerced values.
+  const [formInputs, setFormInputs] = useState<HouseInputs>({})
+  const formErrors = useMemo(
+    () => validateHouse(formData, formInputs),
+    [formData, formInputs]
+  )
 
-  const loadHousesFromDB = async () => {
-    const { data } = await supabase.from('houses').select('*')
-    if (data) {
-      setHouses(data)
-    }
-  }
-
+  // Edits apply locally right away; the store queues them for Supabase and
+  // replays the queue whenever the connection comes back.
+  // History shows right away too; the store records it once the house
+  // write itself has reached Supabase.
   const saveHouseToDB = async (house: House) => {
-    try {
-      const { data } = await supabase.from('houses').insert(house).select('*')
-      if (data && data?.length > 0) {
-        setHouses((prev) => [...prev, ...data])
-        return true
-      }
-      return false
-    } catch (error) {
-      console.error('Error saving house to DB:', error)
-      return false
-    }
+    if (!houseStore.current) return null
+    const events = [createAddedEvent(house)]
+    setHistory((prev) => [...prev, ...events])
+    return houseStore.current.insert(house, events)
   }
 
   const updateHouseInDB = async (id: string, house: House) => {
-    const { data } = await supabase
-      .from('houses')
-      .update(house)
-      .eq('id', id)
-      .select('*')
-    if (data && data?.length > 0) {
-      setHouses((prev) => prev.map((h) => (h.id === id ? data[0] : h)))
-      return true
-    }
-    return false
+    if (!houseStore.current) return null
+    const previous = houseStore.current.get(id)
+    const events = previous ? diffTrackedFields(previous, house) : []
+    setHistory((prev) => [...prev, ...events])
+    return houseStore.current.update({ ...house, id }, events)
   }
 
   const deleteHouseFromDB = async (id: string) => {
-    const { data } = await supabase
-      .from('houses')
-      .delete()
-      .eq('id', id)
-      .select('*')
-    if (data !== null) {
-      setHouses((prev) => prev.filter((h) => h.id !== id))
-      return true
-    }
-    return false
+    if (!houseStore.current) return false
+    await houseStore.current.remove(id)
+    return true
   }
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -114,108 +293,206 @@ const HouseRatingSystem = () => {
 
     setUploadError('')
 
-    if (!file.name.endsWith('.csv')) {
-      setUploadError('Please upload a CSV file')
+    const isBackup = file.name.endsWith('.json')
+    if (!file.name.endsWith('.csv') && !isBackup) {
+      setUploadError('Please upload a CSV file or a JSON backup')
       return
     }
 
     const reader = new FileReader()
-    reader.onload = async (e: ProgressEvent<FileReader>) => {
-      try {
-        const text = e?.target?.result
-        if (typeof text !== 'string') {
-          setUploadError('Failed to read file content')
-          return
-        }
-        const parsed = Papa.parse<House>(text, {
-          header: true,
-          dynamicTyping: true,
-          skipEmptyLines: true
-        })
-
-        const cleanedHouses = parsed.data.filter(
-          (house: House) => house.address && house.address.trim() !== ''
-        )
+    reader.onload = (e: ProgressEvent<FileReader>) => {
+      const text = e?.target?.result
+      if (typeof text !== 'string') {
+        setUploadError('Failed to read file content')
+        return
+      }
+      if (isBackup) {
+        restoreBackup(file.name, text)
+        return
+      }
+      const parsed = Papa.parse<Record<string, string>>(text, {
+        header: true,
+        skipEmptyLines: true
+      })
+      const headers = parsed.meta.fields ?? []
 
-        if (cleanedHouses.length === 0) {
-          setUploadError('No valid houses found in CSV')
-          return
-        }
-        for (const house of cleanedHouses) {
-          await saveHouseToDB(house)
-        }
-        setHouses(cleanedHouses)
-        setUploadError('')
-      } catch (error) {
-        setUploadError('Error parsing CSV file')
-        console.error(error)
+      if (headers.length === 0 || parsed.data.length === 0) {
+        setUploadError('No rows found in CSV')
+        return
       }
+      setCsvImport({ fileName: file.name, headers, rows: parsed.data })
     }
     reader.readAsText(file)
+    event.target.value = ''
   }
 
-  const calculateScore = (house: House) => {
-    let score = 0
-    let maxScore = 0
-
-    const garageSpaces = house.garage_spaces || 0
-    const garageScore = garageSpaces >= 2 ? 100 : garageSpaces === 1 ? 50 : 0
-    score += (garageScore / 100) * weights.garageSpaces
-    maxScore += weights.garageSpaces
-
-    const hasWalkIn = house.walk_in_closet === true
-    score += hasWalkIn ? weights.walkInCloset : 0
-    maxScore += weights.walkInCloset
-
-    const hasKitchen = house.kitchen_island === true
-    score += hasKitchen ? weights.kitchenIsland : 0
-    maxScore += weights.kitchenIsland
-
-    const distanceStr = (house.distance || '').toString()
-    const distanceMatch = distanceStr.match(/(\d+)/)
-    const distance = distanceMatch ? parseInt(distanceMatch[1]) : 50
-    const distanceScore = Math.max(0, 100 - distance * 2)
-    score += (distanceScore / 100) * weights.distance
-    maxScore += weights.distance
-
-    const hasHighMaintenanceYard = house.yard_maintenance === true
-    score += hasHighMaintenanceYard ? 0 : weights.yardMaintenance
-    maxScore += weights.yardMaintenance
-
-    const hoaFees = house.hoa_fee || 0
-    const hoaScore = hoaFees === 0 ? 100 : Math.max(0, 100 - hoaFees / 5)
-    score += (hoaScore / 100) * weights.hoaFees
-    maxScore += weights.hoaFees
-
-    const size = house.size || 1500
-    const sizeScore = Math.min(100, Math.max(0, ((size - 1000) / 2500) * 100))
-    score += (sizeScore / 100) * weights.size
-    maxScore += weights.size
-
-    const yearBuilt = house.year_built || 1950
-    const yearScore = Math.min(
-      100,
-      Math.max(0, ((yearBuilt - 1920) / 105) * 100)
-    )
-    score += (yearScore / 100) * weights.yearBuilt
-    maxScore += weights.yearBuilt
+  const criteria = useMemo(
+    () => buildCriteria(destinations, finance, defaultCriteria, attributes),
+    [destinations, finance, attributes]
+  )
+  const weightKeys = useMemo(
+    () => [...new Set(criteria.map((c) => c.weightKey ?? c.key))],
+    [criteria]
+  )
+  const importFields = useMemo(
+    () => getImportFields(destinations, attributes),
+    [destinations, attributes]
+  )
 
-    const price = house.price || 600000
-    const priceScore = Math.min(
-      100,
-      Math.max(0, 100 - ((price - 400000) / 300000) * 100)
-    )
-    score += (priceScore / 100) * weights.price
-    maxScore += weights.price
+  const restoreBackup = async (fileName: string, text: string) => {
+    const backup = parseBackup(text)
+    if (!backup) {
+      setUploadError('Not a valid backup file')
+      return
+    }
+    if (
+      backup.weight_profiles.length > 0 &&
+      window.confirm(
+        `Restore ${backup.weight_profiles.length} weight profiles from this backup?`
+      )
+    ) {
+      for (const profile of backup.weight_profiles) {
+        await saveWeightProfile(householdId, profile)
+      }
+      setProfiles((prev) => [
+        ...backup.weight_profiles,
+        ...prev.filter(
+          (p) => !backup.weight_profiles.some((b) => b.id === p.id)
+        )
+      ])
+    }
+    const restoredDestinations = [
+      ...backup.destinations,
+      ...destinations.filter(
+        (d) => !backup.destinations.some((b) => b.id === d.id)
+      )
+    ].sort((a, b) => a.position - b.position)
+    for (const destination of backup.destinations) {
+      await saveDestination(householdId, destination)
+    }
+    const restoredAttributes = [
+      ...backup.custom_attributes,
+      ...attributes.filter(
+        (a) => !backup.custom_attributes.some((b) => b.id === a.id)
+      )
+    ].sort((a, b) => a.position - b.position)
+    for (const attribute of backup.custom_attributes) {
+      await saveCustomAttribute(householdId, attribute)
+    }
+    setDestinations(restoredDestinations)
+    setAttributes(restoredAttributes)
+
+    // The backup may bring destinations and attributes the current columns
+    // don't know about yet.
+    const fields = getImportFields(restoredDestinations, restoredAttributes)
+    setCsvImport({
+      fileName,
+      headers: fields.map(exportHeader),
+      rows: backupToRows(backup, fields),
+      tourNotes: backupTourNotes(backup)
+    })
+  }
 
-    return maxScore > 0 ? (score / maxScore) * 100 : 0
+  const handleExport = (format: 'csv' | 'json' | 'backup') => {
+    if (format === 'csv') {
+      downloadFile(
+        scoredHousesToCsv(scoredHouses, breakdowns, importFields),
+        exportFileName('houses', 'csv'),
+        'text/csv'
+      )
+    } else if (format === 'json') {
+      downloadFile(
+        scoredHousesToJson(scoredHouses, breakdowns),
+        exportFileName('houses', 'json'),
+        'application/json'
+      )
+    } else {
+      downloadFile(
+        JSON.stringify(
+          createBackup(houses, profiles, destinations, attributes),
+          null,
+          2
+        ),
+        exportFileName('house-rater-backup', 'json'),
+        'application/json'
+      )
+    }
   }
 
+  const historySummaries = useMemo(() => {
+    const byHouse = new Map<string, HouseEvent[]>()
+    history.forEach((e) =>
+      byHouse.set(e.house_id, [...(byHouse.get(e.house_id) ?? []), e])
+    )
+    return new Map(
+      houses
+        .filter((house) => byHouse.has(house.id))
+        .map((house) => [
+          house.id,
+          summarizeHistory(house, byHouse.get(house.id)!)
+        ])
+    )
+  }, [houses, history])
+
+  const breakdowns = useMemo(
+    () =>
+      new Map(
+        houses.map((house) => [
+          house.id,
+          scoreBreakdown(house, weights, criteria)
+        ])
+      ),
+    [houses, weights, criteria]
+  )
+
+  const consensus = useMemo(() => {
+    const raters = profiles
+      .filter((p) => p.is_rater)
+      .map((p) => ({
+        ...p,
+        weights:
+          p.id === activeProfileId
+            ? weights
+            : { ...defaultWeights, ...p.weights }
+      }))
+    return raters.length >= 2
+      ? scoreConsensus(houses, raters, aggregation, criteria)
+      : null
+  }, [houses, profiles, activeProfileId, weights, aggregation, criteria])
+
+  // Scores follow the active profile's weights unless the household asked to
+  // rank by consensus.
+  const rankingConsensus = rankByConsensus ? consensus : null
+  const activeProfileName = profiles.find((p) => p.id === activeProfileId)?.name
+
+  const filterResults = useMemo(
+    () =>
+      new Map(
+        houses.map((house) => [
+          house.id,
+          evaluateFilter(house, filter, budgetLimit)
+        ])
+      ),
+    [houses, filter, budgetLimit]
+  )
+
+  const filterOptions = useMemo(
+    () => ({
+      cities: [...new Set(houses.map((h) => h.city).filter(Boolean))].sort(),
+      styles: [...new Set(houses.map((h) => h.style).filter(Boolean))].sort()
+    }),
+    [houses]
+  )
+
   const scoredHouses = useMemo(() => {
     return houses
+      .filter((house) => !filterResults.get(house.id)?.excluded)
       .map((house) => ({
         ...house,
-        calculated_score: calculateScore(house)
+        calculated_score:
+          rankingConsensus?.get(house.id)?.score ??
+          breakdowns.get(house.id)?.score ??
+          0
       }))
       .filter((house) => {
         if (!searchTerm) return true
@@ -227,27 +504,251 @@ const HouseRatingSystem = () => {
         )
       })
       .sort((a, b) => {
-        if (sortBy === 'sold') {
-          if (a.sold === b.sold) return 0
-          if (a.sold) return 1
-          return -1
+        if (sortBy === 'status') {
+          return (
+            houseStatuses.indexOf(a.status) - houseStatuses.indexOf(b.status) ||
+            b.calculated_score - a.calculated_score
+          )
         }
         if (sortBy === 'score') return b.calculated_score - a.calculated_score
+        if (sortBy === 'disagreement') {
+          const spread = (h: House) => consensus?.get(h.id)?.spread ?? 0
+          return spread(b) - spread(a)
+        }
         if (sortBy === 'price') return a?.price - b?.price
+        if (sortBy === 'monthly') {
+          return monthlyCost(a, finance).total - monthlyCost(b, finance).total
+        }
         if (sortBy === 'distance') {
-          const getDistance = (h: House) => {
-            const str = (h.distance || '').toString()
-            const match = str.match(/(\d+)/)
-            return match ? parseInt(match[1]) : 99
-          }
+          const getDistance = (h: House) =>
+            averageCommuteMinutes(h, destinations)
           return getDistance(a) - getDistance(b)
         }
         return 0
       })
-  }, [houses, sortBy, weights, searchTerm])
+  }, [
+    houses,
+    sortBy,
+    breakdowns,
+    consensus,
+    rankingConsensus,
+    destinations,
+    finance,
+    filterResults,
+    searchTerm
+  ])
+
+  const applyProfile = (profile: WeightProfile) => {
+    setUndoHistory(forgetWeights)
+    setActiveProfileId(profile.id)
+    setWeights({ ...defaultWeights, ...profile.weights })
+    setBudgetLimit(profile.budget_limit ?? defaultBudgetLimit)
+    setFinance({ ...defaultFinanceSettings, ...profile.finance })
+  }
+
+  const touchProfile = (profile: WeightProfile) => {
+    const touched = { ...profile, last_used_at: new Date().toISOString() }
+    setProfiles((prev) => prev.map((p) => (p.id === profile.id ? touched : p)))
+    saveWeightProfile(householdId, touched)
+  }
+
+  const handleSelectProfile = (id: string) => {
+    const profile = profiles.find((p) => p.id === id)
+    if (!profile) return
+    applyProfile(profile)
+    touchProfile(profile)
+  }
+
+  const handleCreateProfile = async (name: string, presetName: string) => {
+    const preset = weightPresets.find((p) => p.name === presetName)
+    const profile = createWeightProfile(
+      name,
+      preset?.weights,
+      budgetLimit,
+      false,
+      finance
+    )
+    if (await saveWeightProfile(householdId, profile)) {
+      setProfiles((prev) => [profile, ...prev])
+      applyProfile(profile)
+    }
+  }
+
+  const handleRenameProfile = async (id: string, name: string) => {
+    const profile = profiles.find((p) => p.id === id)
+    if (!profile) return
+    const renamed = { ...profile, name }
+    if (await saveWeightProfile(householdId, renamed)) {
+      setProfiles((prev) => prev.map((p) => (p.id === id ? renamed : p)))
+    }
+  }
+
+  const handleDuplicateProfile = async (id: string) => {
+    const profile = profiles.find((p) => p.id === id)
+    if (!profile) return
+    const copy = createWeightProfile(
+      `${profile.name} (copy)`,
+      profile.weights,
+      profile.budget_limit,
+      false,
+      profile.finance
+    )
+    if (await saveWeightProfile(householdId, copy)) {
+      setProfiles((prev) => [copy, ...prev])
+      applyProfile(copy)
+    }
+  }
+
+  const handleDeleteProfile = async (id: string) => {
+    if (!(await deleteWeightProfile(householdId, id))) return
+    const remaining = profiles.filter((p) => p.id !== id)
+    setProfiles(remaining)
+    if (id === activeProfileId) {
+      if (remaining.length > 0) {
+        applyProfile(remaining[0])
+      } else {
+        setActiveProfileId(null)
+      }
+    }
+  }
+
+  const handleToggleRater = (id: string) => {
+    const profile = profiles.find((p) => p.id === id)
+    if (!profile) return
+    const toggled = { ...profile, is_rater: !profile.is_rater }
+    setProfiles((prev) => prev.map((p) => (p.id === id ? toggled : p)))
+    saveWeightProfile(householdId, toggled)
+  }
+
+  const disagreements = useMemo(() => {
+    if (!consensus) return []
+    return houses
+      .map((house) => ({ house, consensus: consensus.get(house.id)! }))
+      .filter((d) => d.consensus.spread > 0)
+      .sort((a, b) => b.consensus.spread - a.consensus.spread)
+      .slice(0, 5)
+  }, [houses, consensus])
+
+  const handleAddDestination = async (name: string) => {
+    const destination = createDestination(name, destinations.length)
+    if (await saveDestination(householdId, destination)) {
+      setDestinations((prev) => [...prev, destination])
+    }
+  }
+
+  const handleDestinationChange = (destination: Destination) => {
+    setDestinations((prev) =>
+      prev.map((d) => (d.id === destination.id ? destination : d))
+    )
+    destinationSaves.schedule(destination.id, () =>
+      saveDestination(householdId, destination)
+    )
+  }
+
+  const handleAddAttribute = async (
+    name: string,
+    type: CustomAttributeType
+  ) => {
+    const attribute = createCustomAttribute(name, type, attributes.length)
+    if (await saveCustomAttribute(householdId, attribute)) {
+      setAttributes((prev) => [...prev, attribute])
+      if (type !== 'text') {
+        setWeights((prev) => ({ ...prev, [customAttributeKey(attribute)]: 5 }))
+      }
+    }
+  }
+
+  const handleAttributeChange = (attribute: CustomAttribute) => {
+    setAttributes((prev) =>
+      prev.map((a) => (a.id === attribute.id ? attribute : a))
+    )
+    attributeSaves.schedule(attribute.id, () =>
+      saveCustomAttribute(householdId, attribute)
+    )
+  }
+
+  const handleDeleteAttribute = async (id: string) => {
+    attributeSaves.cancel(id)
+    if (await deleteCustomAttribute(householdId, id)) {
+      setAttributes((prev) => prev.filter((a) => a.id !== id))
+    }
+  }
+
+  const handleDeleteDestination = async (id: string) => {
+    destinationSaves.cancel(id)
+    if (await deleteDestination(householdId, id)) {
+      setDestinations((prev) => prev.filter((d) => d.id !== id))
+    }
+  }
+
+  const monthlyCostTitle = (house: House) => {
+    const cost = monthlyCost(house, finance)
+    return [
+      `Principal & interest: ${formatMonthly(cost.principalAndInterest)}`,
+      `Property tax: ${formatMonthly(cost.propertyTax)}`,
+      `Insurance: ${formatMonthly(cost.insurance)}`,
+      `PMI: ${formatMonthly(cost.pmi)}`,
+      `HOA: ${formatMonthly(cost.hoa)}`
+    ].join('\n')
+  }
+
+  const handleSaveFilter = async (name: string) => {
+    const saved = createSavedFilter(name, filter)
+    if (await saveSavedFilter(householdId, saved)) {
+      setSavedFilters((prev) =>
+        [...prev, saved].sort((a, b) => a.name.localeCompare(b.name))
+      )
+    }
+  }
+
+  const handleDeleteSavedFilter = async (id: string) => {
+    if (await deleteSavedFilter(householdId, id)) {
+      setSavedFilters((prev) => prev.filter((s) => s.id !== id))
+    }
+  }
+
+  const handleToggleCompare = (id: string) => {
+    setCompareIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((c) => c !== id)
+        : prev.length < maxCompared
+          ? [...prev, id]
+          : prev
+    )
+  }
+
+  const comparedHouses = useMemo(
+    () =>
+      compareIds
+        .map((id) => scoredHouses.find((h) => h.id === id))
+        .filter((h): h is (typeof scoredHouses)[number] => h !== undefined),
+    [compareIds, scoredHouses]
+  )
+
+  const comparisonRows = useMemo(
+    () =>
+      buildComparisonRows(
+        comparedHouses,
+        breakdowns,
+        destinations,
+        finance,
+        attributes,
+        rankingConsensus
+      ),
+    [
+      comparedHouses,
+      breakdowns,
+      destinations,
+      finance,
+      attributes,
+      rankingConsensus
+    ]
+  )
 
   const handleWeightChange = (key: string, value: string) => {
-    setWeights((prev) => ({ ...prev, [key]: parseFloat(value) }))
+    const next = { ...weights, [key]: parseFloat(value) }
+    pushUndo(weightsEntry('Changed weights', weights, next))
+    setWeights(next)
   }
 
   const handleFormChange = (
@@ -257,40 +758,474 @@ const HouseRatingSystem = () => {
     setFormData((prev) => ({ ...prev, [field]: value }))
   }
 
+  const handleFieldInput = (field: keyof House, raw: string) => {
+    setFormInputs((prev) => ({ ...prev, [field]: raw }))
+    const { value } = coerceField(houseSchema[field]!, raw)
+    if (value !== undefined) {
+      setFormData((prev) => ({ ...prev, [field]: value }))
+    }
+  }
+
+  const fieldValue = (field: keyof House) =>
+    formInputs[field] ?? String(formData[field] ?? '')
+
+  // Errors show once a field is touched; an edited house shows them all, as
+  // it may have been saved before validation existed.
+  const fieldError = (field: keyof House) =>
+    field in formInputs || editingHouse ? formErrors[field] : undefined
+
+  const handleCommuteChange = (
+    destinationId: string,
+    unit: 'minutes' | 'miles',
+    value: string
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      commutes: setCommute(prev.commutes ?? [], destinationId, {
+        [unit]: value === '' ? null : parseFloat(value)
+      })
+    }))
+  }
+
   const handleSubmit = async () => {
+    if (Object.keys(formErrors).length > 0) return
+    if (editingHouse && !canTransition(editingHouse.status, formData.status)) {
+      window.alert(
+        `A house cannot move from ${statusLabels[editingHouse.status]} to ${
+          statusLabels[formData.status]
+        }.`
+      )
+      return
+    }
+    const house = formData
     if (editingHouse) {
-      await updateHouseInDB(editingHouse.id, formData)
-      setHouses((prev) =>
-        prev.map((h) => (h === editingHouse ? { ...formData } : h))
+      // Merge with whatever a partner saved while the form was open, so their
+      // changes to fields we didn't touch survive.
+      const current = allHouses.find((h) => h.id === editingHouse.id)
+      let edited: House
+      if (!current || isDeleted(current)) {
+        if (
+          !window.confirm(
+            'This house was removed while you were editing. Add it back with your changes?'
+          )
+        ) {
+          return
+        }
+        edited = { ...house, deleted_at: null }
+      } else {
+        const { merged, conflicts } = mergeHouse(editingHouse, house, current)
+        const keepMine =
+          conflicts.length > 0 &&
+          window.confirm(
+            `${conflicts
+              .map(fieldLabel)
+              .join(
+                ', '
+              )} changed while you were editing. OK keeps your values, Cancel keeps theirs.`
+          )
+        edited = keepMine
+          ? conflicts.reduce(
+              (result, key) => ({
+                ...result,
+                [key]: house[key as keyof House]
+              }),
+              merged
+            )
+          : merged
+      }
+      const saved = current
+        ? await updateHouseInDB(editingHouse.id, edited)
+        : await saveHouseToDB(edited)
+      if (!saved) return
+      // Removed photos, and uploads a merge dropped, go once the save lands.
+      await discardPhotos(
+        droppedPhotos(
+          [editingHouse.tour_notes, house.tour_notes],
+          edited.tour_notes
+        )
+      )
+      pushUndo(
+        houseEntry(`Edited ${edited.address}`, [
+          { id: edited.id, before: current ?? null, after: edited }
+        ])
       )
       setEditingHouse(null)
+      if (needsGeocoding(editingHouse, edited)) locateHouse(edited)
     } else {
-      await saveHouseToDB(formData)
+      if (!(await saveHouseToDB(house))) return
+      pushUndo(
+        houseEntry(`Added ${house.address}`, [
+          { id: house.id, before: null, after: house }
+        ])
+      )
+      if (needsGeocoding(null, house)) locateHouse(house)
+    }
+
+    setFormData(createEmptyHouse())
+    setFormInputs({})
+    setShowAddForm(false)
+  }
+
+  // Runs after the save, so a slow geocoder never holds up the form. The
+  // coordinates only land if the address is still the one that was looked up.
+  const locateHouse = async (house: House) => {
+    const location = await geocoder.geocode(geocodeQuery(house))
+    const current = houseStore.current?.get(house.id)
+    if (
+      !location ||
+      !current ||
+      isDeleted(current) ||
+      geocodeQuery(current) !== geocodeQuery(house)
+    ) {
+      return
     }
+    await updateHouseInDB(current.id, { ...current, ...location })
+  }
 
-    const newEmptyHouse = { ...emptyHouse, id: uuidV4() }
-    setFormData(newEmptyHouse)
+  const handleCancelForm = () => {
+    // Photos uploaded while the form was open belong to no saved house.
+    const stored = allHouses.find((h) => h.id === formData.id)
+    discardPhotos(droppedPhotos([formData.tour_notes], stored?.tour_notes))
     setShowAddForm(false)
+    setEditingHouse(null)
+    setFormData(emptyHouse)
+    setFormInputs({})
+  }
+
+  const handleGeocodeMissing = async () => {
+    setIsGeocoding(true)
+    for (const house of houses.filter((h) => !hasLocation(h))) {
+      const location = await geocoder.geocode(geocodeQuery(house))
+      if (location) await updateHouseInDB(house.id, { ...house, ...location })
+      await wait(geocoder.minIntervalMs)
+    }
+    setIsGeocoding(false)
+  }
+
+  const handleLocateDestination = async (
+    destination: Destination,
+    address: string
+  ) => {
+    const location = await geocoder.geocode(address)
+    if (location) {
+      handleDestinationChange({ ...destination, ...location })
+    } else {
+      window.alert(`Could not find "${address}" on the map.`)
+    }
+  }
+
+  const handleStatusChange = async (house: House, status: HouseStatus) => {
+    if (!canTransition(house.status, status)) return
+    const before = allHouses.find((h) => h.id === house.id) ?? house
+    const after = { ...before, status }
+    await updateHouseInDB(house.id, after)
+    pushUndo(
+      houseEntry(`Moved ${house.address} to ${statusLabels[status]}`, [
+        { id: house.id, before, after }
+      ])
+    )
   }
 
   const handleEdit = (house: House) => {
     setEditingHouse(house)
-    setFormData({ ...house })
+    setFormData(normalizeHouse(house))
+    setFormInputs({})
     setShowAddForm(true)
   }
 
   const handleDelete = async (house: House) => {
-    if (window.confirm('Are you sure you want to delete this house?')) {
-      await deleteHouseFromDB(house.id)
-      setHouses((prev) => prev.filter((h) => h !== house))
+    const before = allHouses.find((h) => h.id === house.id) ?? house
+    const after = { ...before, deleted_at: new Date().toISOString() }
+    await updateHouseInDB(house.id, after)
+    pushUndo(
+      houseEntry(`Moved ${house.address} to the trash`, [
+        { id: house.id, before, after }
+      ])
+    )
+  }
+
+  const handleRestore = async (house: House) => {
+    const after = { ...house, deleted_at: null }
+    await updateHouseInDB(house.id, after)
+    pushUndo(
+      houseEntry(`Restored ${house.address}`, [
+        { id: house.id, before: house, after }
+      ])
+    )
+  }
+
+  const discardPhotos = async (photos: TourPhoto[]) => {
+    for (const photo of photos) {
+      deletedPhotos.current.add(photo.path)
+      await deleteTourPhoto(photo)
+    }
+  }
+
+  const purgeHouses = async (purged: House[]) => {
+    for (const house of purged) {
+      if (await deleteHouseFromDB(house.id)) {
+        await discardPhotos(house.tour_notes.photos)
+      }
+    }
+    setUndoHistory((prev) =>
+      purged.reduce((history, h) => forgetHouse(history, h.id), prev)
+    )
+    setToast(null)
+  }
+
+  const handlePurge = (house: House) => {
+    if (
+      window.confirm(
+        `Permanently delete ${house.address}? This cannot be undone.`
+      )
+    ) {
+      purgeHouses([house])
+    }
+  }
+
+  const handleEmptyTrash = () => {
+    if (
+      window.confirm(
+        `Permanently delete ${trashedHouses.length} houses? This cannot be undone.`
+      )
+    ) {
+      purgeHouses(trashedHouses)
+    }
+  }
+
+  // House actions get an undo toast; weight tweaks only join the stack.
+  const pushUndo = (entry: UndoEntry) => {
+    setUndoHistory((prev) => recordUndo(prev, entry))
+    setToast(entry.kind === 'houses' ? entry : null)
+  }
+
+  const applyUndoEntry = async (
+    entry: UndoEntry,
+    direction: 'undo' | 'redo'
+  ) => {
+    if (entry.kind === 'weights') {
+      setWeights(direction === 'undo' ? entry.before : entry.after)
+      return
+    }
+    for (const change of entry.changes) {
+      const current = houseStore.current?.get(change.id) ?? null
+      const target = undoTarget(change, direction, current)
+      if (!target) {
+        if (current && (await deleteHouseFromDB(change.id))) {
+          await discardPhotos(current.tour_notes.photos)
+        }
+        continue
+      }
+      const house = withoutPhotos(target, deletedPhotos.current)
+      if (current) {
+        if (await updateHouseInDB(change.id, house)) {
+          await discardPhotos(
+            droppedPhotos([current.tour_notes], house.tour_notes)
+          )
+        }
+      } else {
+        await saveHouseToDB(house)
+      }
+    }
+  }
+
+  const handleUndo = async () => {
+    const step = undoStep(undoHistory)
+    if (!step) return
+    setUndoHistory(step.history)
+    setToast(null)
+    await applyUndoEntry(step.entry, 'undo')
+  }
+
+  const handleRedo = async () => {
+    const step = redoStep(undoHistory)
+    if (!step) return
+    setUndoHistory(step.history)
+    setToast(null)
+    await applyUndoEntry(step.entry, 'redo')
+  }
+
+  const handleImportSave = async (imported: House) => {
+    const house = withTourNotes(imported, csvImport?.tourNotes)
+    const status = await saveHouseToDB(house)
+    if (status && status !== 'failed') {
+      importChanges.current.push({ id: house.id, before: null, after: house })
+    }
+    return status
+  }
+
+  const handleImportUpdate = async (id: string, imported: House) => {
+    const house = withTourNotes(imported, csvImport?.tourNotes)
+    const before = allHouses.find((h) => h.id === id) ?? null
+    const status = await updateHouseInDB(id, house)
+    if (status && status !== 'failed') {
+      importChanges.current.push({ id, before, after: house })
+    }
+    return status
+  }
+
+  const handleImportClose = () => {
+    if (importChanges.current.length > 0) {
+      pushUndo(
+        houseEntry(
+          `Imported ${importChanges.current.length} house${
+            importChanges.current.length === 1 ? '' : 's'
+          }`,
+          importChanges.current
+        )
+      )
+      importChanges.current = []
     }
+    setCsvImport(null)
   }
 
-  const totalWeight = Object.values(weights).reduce((sum, w) => sum + w, 0)
+  const latestActivity = useMemo(() => {
+    const latest = new Map<string, HouseActivity>()
+    activity.forEach((a) => {
+      if (!latest.has(a.house_id)) latest.set(a.house_id, a)
+    })
+    return latest
+  }, [activity])
+
+  const editingCurrent = editingHouse
+    ? (houses.find((h) => h.id === editingHouse.id) ?? null)
+    : undefined
+  const editedElsewhere =
+    editingHouse && editingCurrent
+      ? editedFields(editingHouse, editingCurrent)
+      : []
+
+  const totalWeight = weightKeys.reduce(
+    (sum, key) => sum + (weights[key] ?? 0),
+    0
+  )
+
+  useEffect(() => {
+    const store = createHouseStore({
+      client: repository.houses,
+      cache: houseCache,
+      householdId,
+      isOnline: repository.isOnline,
+      onChange: (next, state) => {
+        setAllHouses(next)
+        setSync(state)
+      },
+      saveEvents: (events) => saveHouseEvents(householdId, events)
+    })
+    houseStore.current = store
+    const loadHouses = async () => {
+      for (const house of await store.load()) {
+        const migrated = migrateLegacyDistance(house)
+        if (migrated) await store.update(migrated)
+      }
+    }
+    loadHouses()
+    const handleConnectionChange = () => store.flush()
+    window.addEventListener('online', handleConnectionChange)
+    window.addEventListener('offline', handleConnectionChange)
+    const unsubscribe = repository.subscribe(householdId, async (change) => {
+      const applied = await store.applyRemote(change.house_id, change.house)
+      if (!applied || (change.changed_by && change.changed_by === userId)) {
+        return
+      }
+      const entry = describeRemoteChange(change, applied.previous)
+      if (entry) setActivity((prev) => [entry, ...prev].slice(0, maxActivity))
+    })
+    return () => {
+      window.removeEventListener('online', handleConnectionChange)
+      window.removeEventListener('offline', handleConnectionChange)
+      unsubscribe()
+      store.dispose()
+      houseStore.current = null
+    }
+  }, [householdId, userId])
+
+  useEffect(() => {
+    if (!toast) return
+    const timer = window.setTimeout(() => setToast(null), 6000)
+    return () => window.clearTimeout(timer)
+  }, [toast])
+
+  useEffect(() => {
+    if (repository.source === 'supabase') {
+      loadHouseholdMembers(householdId).then(setMembers)
+    }
+  }, [householdId])
+
+  useEffect(() => {
+    loadSavedFilters(householdId).then(setSavedFilters)
+  }, [householdId])
+
+  useEffect(() => {
+    loadHouseHistory(householdId).then(setHistory)
+  }, [householdId])
 
   useEffect(() => {
-    loadHousesFromDB()
-  }, [])
+    const loadCommuteDestinations = async () => {
+      let loaded = await loadDestinations(householdId)
+      // A failed load keeps the current destinations rather than seeding one.
+      if (!loaded) return
+      if (loaded.length === 0) {
+        loaded = [defaultDestination]
+        await saveDestination(householdId, defaultDestination)
+      }
+      setDestinations(loaded)
+    }
+    loadCommuteDestinations()
+  }, [householdId])
+
+  useEffect(() => {
+    loadCustomAttributes(householdId).then(setAttributes)
+  }, [householdId])
+
+  useEffect(() => {
+    const loadProfiles = async () => {
+      let loaded = await loadWeightProfiles(householdId)
+      // A failed load keeps the default weights rather than seeding presets.
+      if (!loaded) return
+      if (loaded.length === 0) {
+        loaded = weightPresets.map((preset) =>
+          createWeightProfile(
+            preset.name,
+            preset.weights,
+            defaultBudgetLimit,
+            preset.isRater
+          )
+        )
+        for (const profile of loaded) {
+          await saveWeightProfile(householdId, profile)
+        }
+      }
+      setProfiles(loaded)
+      applyProfile(loaded[0])
+    }
+    loadProfiles()
+  }, [householdId])
+
+  useEffect(() => {
+    const profile = profiles.find((p) => p.id === activeProfileId)
+    if (!profile) return
+    const unchanged =
+      profile.budget_limit === budgetLimit &&
+      JSON.stringify({ ...defaultFinanceSettings, ...profile.finance }) ===
+        JSON.stringify(finance) &&
+      Object.keys(weights).every((key) => profile.weights[key] === weights[key])
+    if (unchanged) return
+
+    const timeout = setTimeout(() => {
+      const updated = {
+        ...profile,
+        weights,
+        budget_limit: budgetLimit,
+        finance
+      }
+      setProfiles((prev) =>
+        prev.map((p) => (p.id === profile.id ? updated : p))
+      )
+      saveWeightProfile(householdId, updated)
+    }, 500)
+    return () => clearTimeout(timeout)
+  }, [householdId, weights, budgetLimit, finance, activeProfileId, profiles])
 
   return (
     <div className='min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6'>
@@ -303,22 +1238,65 @@ const HouseRatingSystem = () => {
                 Gabbi's House Rater
               </h1>
             </div>
+            <div className='flex flex-col items-end gap-2'>
+              <HouseholdMenu session={session} />
+              <RecentActivity activity={activity} members={members} />
+              <SyncStatusPanel
+                sync={sync}
+                onRetry={(id) => houseStore.current?.retry(id)}
+                onDiscard={(id) => houseStore.current?.discard(id)}
+              />
+            </div>
           </div>
 
           <div className='mb-6 p-4 bg-gray-50 rounded-lg'>
             <label className='block text-sm font-semibold text-gray-700 mb-2'>
               <Upload className='inline w-4 h-4 mr-2' />
-              Upload CSV (Bulk Import)
+              Upload CSV or Backup (Bulk Import)
             </label>
             <input
               type='file'
-              accept='.csv'
+              accept='.csv,.json'
               onChange={handleFileUpload}
               className='block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100'
             />
             {uploadError && (
               <p className='mt-2 text-sm text-red-600'>{uploadError}</p>
             )}
+            <div className='flex flex-wrap items-center gap-2 mt-4'>
+              <span className='flex items-center text-sm font-semibold text-gray-700 mr-2'>
+                <Download className='inline w-4 h-4 mr-2' />
+                Export
+              </span>
+              <button
+                onClick={() => handleExport('csv')}
+                className='px-3 py-1 text-sm bg-indigo-50 text-indigo-700 rounded hover:bg-indigo-100'>
+                Current view (CSV)
+              </button>
+              <button
+                onClick={() => handleExport('json')}
+                className='px-3 py-1 text-sm bg-indigo-50 text-indigo-700 rounded hover:bg-indigo-100'>
+                Current view (JSON)
+              </button>
+              <button
+                onClick={() => handleExport('backup')}
+                className='px-3 py-1 text-sm bg-indigo-50 text-indigo-700 rounded hover:bg-indigo-100'>
+                Full backup
+              </button>
+            </div>
+            {csvImport && (
+              <CsvImportWizard
+                fileName={csvImport.fileName}
+                headers={csvImport.headers}
+                rows={csvImport.rows}
+                existingHouses={houses}
+                destinations={destinations}
+                attributes={attributes}
+                onSaveHouse={handleImportSave}
+                onUpdateHouse={handleImportUpdate}
+                onClose={handleImportClose}
+              />
+            )}
           </div>
 
           <div className='grid md:grid-cols-3 gap-4 mb-6'>
@@ -369,21 +1347,31 @@ const HouseRatingSystem = () => {
 
             {!isSettingsCollapsed && (
               <div className='p-4'>
+                <WeightProfileSelector
+                  profiles={profiles}
+                  activeProfileId={activeProfileId}
+                  onSelect={handleSelectProfile}
+                  onCreate={handleCreateProfile}
+                  onRename={handleRenameProfile}
+                  onDuplicate={handleDuplicateProfile}
+                  onDelete={handleDeleteProfile}
+                />
+
                 <h3 className='text-sm font-semibold text-gray-700 mb-3'>
                   Feature Weights (0-10 higher is more important)
                 </h3>
                 <div className='grid md:grid-cols-3 gap-4 mb-6'>
-                  {Object.entries(weights).map(([key, value]) => (
+                  {weightKeys.map((key) => (
                     <div key={key} className='bg-gray-50 p-3 rounded'>
                       <label className='block text-sm font-medium text-gray-700 mb-2 capitalize'>
-                        {key.replace(/([A-Z])/g, ' $1').trim()}: {value}
+                        {weightLabel(key, criteria)}: {weights[key] ?? 0}
                       </label>
                       <input
                         type='range'
                         min='0'
                         max='10'
                         step='1'
-                        value={value}
+                        value={weights[key] ?? 0}
                         onChange={(e) =>
                           handleWeightChange(key, e.target.value)
                         }
@@ -393,6 +1381,26 @@ const HouseRatingSystem = () => {
                   ))}
                 </div>
 
+                <FinanceSettingsPanel
+                  settings={finance}
+                  onChange={setFinance}
+                />
+
+                <DestinationSettings
+                  destinations={destinations}
+                  onAdd={handleAddDestination}
+                  onChange={handleDestinationChange}
+                  onDelete={handleDeleteDestination}
+                  onLocate={handleLocateDestination}
+                />
+
+                <CustomAttributeSettings
+                  attributes={attributes}
+                  onAdd={handleAddAttribute}
+                  onChange={handleAttributeChange}
+                  onDelete={handleDeleteAttribute}
+                />
+
                 <h3 className='text-sm font-semibold text-gray-700 mb-3'>
                   Budget Limit
                 </h3>
@@ -414,6 +1422,16 @@ const HouseRatingSystem = () => {
                     <span>$700k</span>
                   </div>
                 </div>
+
+                <ConsensusPanel
+                  profiles={profiles}
+                  aggregation={aggregation}
+                  rankByConsensus={rankByConsensus}
+                  disagreements={disagreements}
+                  onToggleRater={handleToggleRater}
+                  onAggregationChange={setAggregation}
+                  onRankByConsensusChange={setRankByConsensus}
+                />
               </div>
             )}
           </div>
@@ -431,17 +1449,54 @@ const HouseRatingSystem = () => {
             </div>
           </div>
 
+          <FilterPanel
+            filter={filter}
+            cities={filterOptions.cities}
+            styles={filterOptions.styles}
+            savedFilters={savedFilters}
+            visibleCount={scoredHouses.length}
+            totalCount={houses.length}
+            onChange={setFilter}
+            onSave={handleSaveFilter}
+            onDeleteSaved={handleDeleteSavedFilter}
+          />
+
           <div className='flex gap-2 mb-4 flex-wrap'>
             <button
               onClick={() => {
                 setShowAddForm(!showAddForm)
                 setEditingHouse(null)
                 setFormData(emptyHouse)
+                setFormInputs({})
               }}
               className='flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700'>
               <Plus className='w-4 h-4' />
               Add House
             </button>
+            <button
+              onClick={handleUndo}
+              disabled={undoHistory.past.length === 0}
+              title={
+                undoHistory.past.length > 0
+                  ? `Undo: ${undoHistory.past[undoHistory.past.length - 1].label}`
+                  : 'Nothing to undo'
+              }
+              className='flex items-center gap-2 px-4 py-2 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50'>
+              <Undo2 className='w-4 h-4' />
+              Undo
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={undoHistory.future.length === 0}
+              title={
+                undoHistory.future.length > 0
+                  ? `Redo: ${undoHistory.future[0].label}`
+                  : 'Nothing to redo'
+              }
+              className='flex items-center gap-2 px-4 py-2 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50'>
+              <Redo2 className='w-4 h-4' />
+              Redo
+            </button>
             <button
               onClick={() => setSortBy('score')}
               className={`px-4 py-2 rounded ${
@@ -456,6 +1511,15 @@ const HouseRatingSystem = () => {
               }`}>
               Sort by Price
             </button>
+            <button
+              onClick={() => setSortBy('monthly')}
+              className={`px-4 py-2 rounded ${
+                sortBy === 'monthly'
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-gray-200'
+              }`}>
+              Sort by Monthly Cost
+            </button>
             <button
               onClick={() => setSortBy('distance')}
               className={`px-4 py-2 rounded ${
@@ -466,14 +1530,120 @@ const HouseRatingSystem = () => {
               Sort by Distance
             </button>
             <button
-              onClick={() => setSortBy('sold')}
+              onClick={() => setSortBy('status')}
               className={`px-4 py-2 rounded ${
-                sortBy === 'sold' ? 'bg-indigo-600 text-white' : 'bg-gray-200'
+                sortBy === 'status' ? 'bg-indigo-600 text-white' : 'bg-gray-200'
               }`}>
-              Sort by Availability
+              Sort by Status
+            </button>
+            {[
+              { key: 'list' as const, label: 'List', Icon: List },
+              { key: 'board' as const, label: 'Board', Icon: LayoutGrid },
+              { key: 'map' as const, label: 'Map', Icon: MapIcon }
+            ].map(({ key, label, Icon }) => (
+              <button
+                key={key}
+                onClick={() => setView(key)}
+                className={`flex items-center gap-2 px-4 py-2 rounded ${
+                  view === key ? 'bg-indigo-600 text-white' : 'bg-gray-200'
+                }`}>
+                <Icon className='w-4 h-4' />
+                {label}
+              </button>
+            ))}
+            <button
+              onClick={() => setShowSensitivity(true)}
+              disabled={scoredHouses.length < 2}
+              className='flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50'>
+              <BarChart2 className='w-4 h-4' />
+              Analyze Weights
             </button>
+            <button
+              onClick={() => setShowElicitation(true)}
+              className='flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700'>
+              <Scale className='w-4 h-4' />
+              Learn Weights
+            </button>
+            <button
+              onClick={() => setShowTrash(true)}
+              className='flex items-center gap-2 px-4 py-2 bg-gray-200 rounded hover:bg-gray-300'>
+              <Trash2 className='w-4 h-4' />
+              Trash ({trashedHouses.length})
+            </button>
+            {compareIds.length > 0 && (
+              <button
+                onClick={() => setShowComparison(true)}
+                disabled={comparedHouses.length < 2}
+                className='flex items-center gap-2 px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600 disabled:opacity-50'>
+                <Columns className='w-4 h-4' />
+                Compare ({compareIds.length})
+              </button>
+            )}
+            {consensus && (
+              <button
+                onClick={() => setSortBy('disagreement')}
+                className={`px-4 py-2 rounded ${
+                  sortBy === 'disagreement'
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-gray-200'
+                }`}>
+                Sort by Disagreement
+              </button>
+            )}
           </div>
 
+          {toast && (
+            <UndoToast
+              entry={toast}
+              onUndo={handleUndo}
+              onDismiss={() => setToast(null)}
+            />
+          )}
+
+          {showTrash && (
+            <TrashModal
+              houses={trashedHouses}
+              onRestore={handleRestore}
+              onPurge={handlePurge}
+              onEmpty={handleEmptyTrash}
+              onClose={() => setShowTrash(false)}
+            />
+          )}
+
+          {showElicitation && (
+            <WeightElicitationModal
+              houses={scoredHouses}
+              weights={weights}
+              criteria={criteria}
+              weightKeys={weightKeys}
+              onApply={(fitted) => {
+                const next = { ...weights, ...fitted }
+                pushUndo(weightsEntry('Applied learned weights', weights, next))
+                setWeights(next)
+              }}
+              onClose={() => setShowElicitation(false)}
+            />
+          )}
+
+          {showSensitivity && (
+            <SensitivityModal
+              houses={scoredHouses}
+              weights={weights}
+              criteria={criteria}
+              weightKeys={weightKeys}
+              onClose={() => setShowSensitivity(false)}
+            />
+          )}
+
+          {showComparison && comparedHouses.length >= 2 && (
+            <ComparisonModal
+              houses={comparedHouses}
+              rows={comparisonRows}
+              onRemove={handleToggleCompare}
+              onClose={() => setShowComparison(false)}
+            />
+          )}
+
           {showAddForm && (
             <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
               <div className='fixed inset-0 bg-black/75 z-40 backdrop-blur-sm' />
@@ -483,122 +1653,181 @@ const HouseRatingSystem = () => {
                     {editingHouse ? 'Edit House' : 'Add New House'}
                   </h3>
                   <button
-                    onClick={() => {
-                      setShowAddForm(false)
-                      setEditingHouse(null)
-                      setFormData(emptyHouse)
-                    }}
+                    onClick={handleCancelForm}
                     className='text-gray-500 hover:text-gray-700 p-2 hover:bg-gray-100 rounded-full transition-colors'>
                     <X className='w-5 h-5' />
                   </button>
                 </div>
 
                 <div className='p-4 sm:p-6'>
+                  {editingHouse &&
+                    (editingCurrent === null || editedElsewhere.length > 0) && (
+                      <div className='mb-4 p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800'>
+                        {editingCurrent === null
+                          ? 'This house was removed while you were editing.'
+                          : `${memberName(
+                              members,
+                              latestActivity.get(editingHouse.id)?.user_id ??
+                                null
+                            )} changed ${editedElsewhere
+                              .map(fieldLabel)
+                              .join(
+                                ', '
+                              )} while you were editing. Saving keeps their changes to fields you didn't touch.`}
+                      </div>
+                    )}
                   <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
-                    <input
+                    <ValidatedInput
                       type='text'
                       placeholder='Address'
-                      value={formData.address}
-                      onChange={(e) =>
-                        handleFormChange('address', e.target.value)
-                      }
-                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+                      value={fieldValue('address')}
+                      error={fieldError('address')}
+                      onChange={(value) => handleFieldInput('address', value)}
                     />
-                    <input
+                    <ValidatedInput
                       type='text'
                       placeholder='City'
-                      value={formData.city}
-                      onChange={(e) => handleFormChange('city', e.target.value)}
-                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+                      value={fieldValue('city')}
+                      error={fieldError('city')}
+                      onChange={(value) => handleFieldInput('city', value)}
                     />
-                    <input
+                    <ValidatedInput
                       type='number'
                       placeholder='Price'
-                      value={formData.price}
-                      onChange={(e) =>
-                        handleFormChange('price', e.target.value)
-                      }
-                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+                      value={fieldValue('price')}
+                      error={fieldError('price')}
+                      onChange={(value) => handleFieldInput('price', value)}
                     />
-                    <input
+                    <ValidatedInput
                       type='number'
                       placeholder='Bedrooms'
-                      value={formData.bedrooms}
-                      onChange={(e) =>
-                        handleFormChange('bedrooms', e.target.value)
-                      }
-                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+                      value={fieldValue('bedrooms')}
+                      error={fieldError('bedrooms')}
+                      onChange={(value) => handleFieldInput('bedrooms', value)}
                     />
-                    <input
+                    <ValidatedInput
                       type='number'
                       placeholder='Bathrooms'
-                      value={formData.bathrooms}
-                      onChange={(e) =>
-                        handleFormChange('bathrooms', e.target.value)
-                      }
-                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+                      value={fieldValue('bathrooms')}
+                      error={fieldError('bathrooms')}
+                      onChange={(value) => handleFieldInput('bathrooms', value)}
                     />
-                    <input
+                    <ValidatedInput
                       type='number'
                       placeholder='Size (sqft)'
-                      value={formData.size}
-                      onChange={(e) => handleFormChange('size', e.target.value)}
-                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+                      value={fieldValue('size')}
+                      error={fieldError('size')}
+                      onChange={(value) => handleFieldInput('size', value)}
                     />
-                    <input
+                    <ValidatedInput
                       type='text'
                       placeholder='Style'
-                      value={formData.style}
+                      value={fieldValue('style')}
+                      error={fieldError('style')}
+                      onChange={(value) => handleFieldInput('style', value)}
+                    />
+                    <select
+                      value={formData.status}
                       onChange={(e) =>
-                        handleFormChange('style', e.target.value)
+                        handleFormChange('status', e.target.value)
                       }
-                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
-                    />
-                    <input
+                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'>
+                      {(editingHouse
+                        ? [
+                            editingHouse.status,
+                            ...allowedTransitions(editingHouse.status)
+                          ]
+                        : houseStatuses
+                      ).map((status) => (
+                        <option key={status} value={status}>
+                          {statusLabels[status]}
+                        </option>
+                      ))}
+                    </select>
+                    <ValidatedInput
                       type='number'
                       placeholder='Year Built'
-                      value={formData.year_built}
-                      onChange={(e) =>
-                        handleFormChange('year_built', e.target.value)
+                      value={fieldValue('year_built')}
+                      error={fieldError('year_built')}
+                      onChange={(value) =>
+                        handleFieldInput('year_built', value)
                       }
-                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
                     />
-                    <input
+                    <ValidatedInput
                       type='number'
                       placeholder='Garage Spaces'
-                      value={formData.garage_spaces}
-                      onChange={(e) =>
-                        handleFormChange('garage_spaces', e.target.value)
+                      value={fieldValue('garage_spaces')}
+                      error={fieldError('garage_spaces')}
+                      onChange={(value) =>
+                        handleFieldInput('garage_spaces', value)
                       }
-                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
                     />
-                    <input
+                    <ValidatedInput
                       type='number'
                       placeholder='HOA Fees'
-                      value={formData.hoa_fee}
-                      onChange={(e) =>
-                        handleFormChange('hoa_fee', e.target.value)
-                      }
-                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
-                    />
-                    <input
-                      type='text'
-                      placeholder='Distance (e.g., 15 min)'
-                      value={formData.distance}
-                      onChange={(e) =>
-                        handleFormChange('distance', e.target.value)
-                      }
-                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+                      value={fieldValue('hoa_fee')}
+                      error={fieldError('hoa_fee')}
+                      onChange={(value) => handleFieldInput('hoa_fee', value)}
                     />
-                    <input
+                    {destinations.map((destination) => (
+                      <div
+                        key={destination.id}
+                        className='sm:col-span-2 grid grid-cols-2 gap-4'>
+                        <input
+                          type='number'
+                          placeholder={`Minutes to ${destination.name}`}
+                          value={
+                            findCommute(formData, destination.id)?.minutes ?? ''
+                          }
+                          onChange={(e) =>
+                            handleCommuteChange(
+                              destination.id,
+                              'minutes',
+                              e.target.value
+                            )
+                          }
+                          className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+                        />
+                        <input
+                          type='number'
+                          placeholder={`Miles to ${destination.name}`}
+                          value={
+                            findCommute(formData, destination.id)?.miles ?? ''
+                          }
+                          onChange={(e) =>
+                            handleCommuteChange(
+                              destination.id,
+                              'miles',
+                              e.target.value
+                            )
+                          }
+                          className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+                        />
+                      </div>
+                    ))}
+                    <ValidatedInput
                       type='text'
                       placeholder='Thumbnail Image URL (optional)'
-                      value={formData.thumbnail_url}
-                      onChange={(e) =>
-                        handleFormChange('thumbnail_url', e.target.value)
+                      value={fieldValue('thumbnail_url')}
+                      error={fieldError('thumbnail_url')}
+                      onChange={(value) =>
+                        handleFieldInput('thumbnail_url', value)
                       }
-                      className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
                     />
+                    {(['lat', 'lng'] as const).map((field) => (
+                      <ValidatedInput
+                        key={field}
+                        type='number'
+                        placeholder={
+                          field === 'lat'
+                            ? 'Latitude (found from address if blank)'
+                            : 'Longitude (found from address if blank)'
+                        }
+                        value={fieldValue(field)}
+                        error={fieldError(field)}
+                        onChange={(value) => handleFieldInput(field, value)}
+                      />
+                    ))}
                     <div className='sm:col-span-2 flex flex-col sm:flex-row gap-3 sm:gap-4 p-3 bg-gray-50 rounded'>
                       <label className='flex items-center gap-2 cursor-pointer'>
                         <input
@@ -636,33 +1865,44 @@ const HouseRatingSystem = () => {
                         />
                         <span className='text-sm'>High Maintenance Yard</span>
                       </label>
-                      <label className='flex items-center gap-2 cursor-pointer'>
-                        <input
-                          type='checkbox'
-                          checked={formData.sold}
-                          onChange={(e) =>
-                            handleFormChange('sold', e.target.checked)
-                          }
-                          className='w-4 h-4 text-indigo-600 rounded focus:ring-2 focus:ring-indigo-500'
-                        />
-                        <span className='text-sm'>Sold</span>
-                      </label>
                     </div>
                   </div>
 
+                  <CustomAttributeFields
+                    attributes={attributes}
+                    values={formData.custom}
+                    onChange={(attributeId, value) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        custom: setCustomValue(prev.custom, attributeId, value)
+                      }))
+                    }
+                  />
+
+                  <TourNotesEditor
+                    householdId={householdId}
+                    houseId={formData.id}
+                    value={formData.tour_notes}
+                    onChange={(tour) =>
+                      setFormData((prev) => ({ ...prev, tour_notes: tour }))
+                    }
+                  />
+
+                  {Object.keys(formErrors).length > 0 && (
+                    <p className='mt-6 text-sm text-red-600'>
+                      Fix before saving: {Object.values(formErrors).join('; ')}
+                    </p>
+                  )}
                   <div className='mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end'>
                     <button
-                      onClick={() => {
-                        setShowAddForm(false)
-                        setEditingHouse(null)
-                        setFormData(emptyHouse)
-                      }}
+                      onClick={handleCancelForm}
                       className='px-6 py-2 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors'>
                       Cancel
                     </button>
                     <button
                       onClick={handleSubmit}
-                      className='px-6 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors'>
+                      disabled={Object.keys(formErrors).length > 0}
+                      className='px-6 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed'>
                       {editingHouse ? 'Update House' : 'Add House'}
                     </button>
                   </div>
@@ -672,125 +1912,248 @@ const HouseRatingSystem = () => {
           )}
         </div>
 
-        <div className='space-y-4'>
-          {scoredHouses.map((house, idx) => (
-            <div
-              key={idx}
-              className='bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow'>
-              <div className='grid grid-cols-1 md:grid-cols-4 gap-4 w-full'>
-                {house.thumbnail_url && (
-                  <div className='w-full h-49 bg-gray-200 col-span-1'>
-                    <img
-                      src={house.thumbnail_url}
-                      alt={house.address}
-                      className='w-full h-full object-cover'
-                      onError={(e) => {
-                        e.currentTarget.style.display = 'none'
-                      }}
-                    />
-                  </div>
-                )}
-                <div className='p-4 md:p-6 w-full col-span-1 md:col-span-3'>
-                  <div className='flex justify-between items-start mb-3'>
-                    <div className='flex-1'>
-                      <a
-                        href={`https://www.zillow.com/homes/${encodeURIComponent(
-                          house.address
-                        )}`}
-                        target='_blank'
-                        rel='noopener noreferrer'
-                        className='text-lg font-bold text-indigo-600 hover:text-indigo-800 hover:underline'>
-                        {house.address}
-                      </a>
-                      <p className='text-sm text-gray-600'>
-                        {house.city} • {house.style}
-                      </p>
+        {view === 'map' && (
+          <MapView
+            houses={scoredHouses}
+            destinations={destinations}
+            area={filter.area}
+            isGeocoding={isGeocoding}
+            onAreaChange={(area) => setFilter((prev) => ({ ...prev, area }))}
+            onSelect={handleEdit}
+            onGeocodeMissing={handleGeocodeMissing}
+          />
+        )}
+
+        {view === 'board' && (
+          <StatusBoard
+            houses={scoredHouses}
+            onMove={handleStatusChange}
+            onOpen={handleEdit}
+          />
+        )}
+
+        {view === 'list' && (
+          <div className='space-y-4'>
+            {scoredHouses.map((house, idx) => (
+              <div
+                key={idx}
+                className='bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow'>
+                <div className='grid grid-cols-1 md:grid-cols-4 gap-4 w-full'>
+                  {house.thumbnail_url && (
+                    <div className='w-full h-49 bg-gray-200 col-span-1'>
+                      <img
+                        src={house.thumbnail_url}
+                        alt={house.address}
+                        className='w-full h-full object-cover'
+                        onError={(e) => {
+                          e.currentTarget.style.display = 'none'
+                        }}
+                      />
                     </div>
-                    <div className='flex items-center gap-3'>
-                      <div className='text-right'>
-                        <div className='text-2xl font-bold text-indigo-600'>
-                          {house.calculated_score.toFixed(1)}
+                  )}
+                  <div className='p-4 md:p-6 w-full col-span-1 md:col-span-3'>
+                    <div className='flex justify-between items-start mb-3'>
+                      <div className='flex-1'>
+                        <a
+                          href={`https://www.zillow.com/homes/${encodeURIComponent(
+                            house.address
+                          )}`}
+                          target='_blank'
+                          rel='noopener noreferrer'
+                          className='text-lg font-bold text-indigo-600 hover:text-indigo-800 hover:underline'>
+                          {house.address}
+                        </a>
+                        <p className='text-sm text-gray-600'>
+                          {house.city} • {house.style}
+                        </p>
+                        {latestActivity.has(house.id) && (
+                          <p className='text-xs text-indigo-600'>
+                            {latestActivity.get(house.id)!.kind === 'added'
+                              ? 'Added'
+                              : 'Changed'}{' '}
+                            by{' '}
+                            {memberName(
+                              members,
+                              latestActivity.get(house.id)!.user_id
+                            )}{' '}
+                            · {timeAgo(latestActivity.get(house.id)!.at)}
+                          </p>
+                        )}
+                      </div>
+                      <div className='flex items-center gap-3'>
+                        <div className='text-right'>
+                          <div className='text-2xl font-bold text-indigo-600'>
+                            {house.calculated_score.toFixed(1)}
+                          </div>
+                          <div className='text-xs text-gray-500'>
+                            {rankingConsensus ? 'Consensus' : 'Score'}
+                          </div>
                         </div>
-                        <div className='text-xs text-gray-500'>Score</div>
+                        <label
+                          title='Select for comparison'
+                          className='flex items-center gap-1 text-xs text-gray-600 cursor-pointer'>
+                          <input
+                            type='checkbox'
+                            checked={compareIds.includes(house.id)}
+                            disabled={
+                              !compareIds.includes(house.id) &&
+                              compareIds.length >= maxCompared
+                            }
+                            onChange={() => handleToggleCompare(house.id)}
+                            className='w-4 h-4 text-indigo-600 rounded focus:ring-2 focus:ring-indigo-500'
+                          />
+                          Compare
+                        </label>
+                        <button
+                          onClick={() => handleEdit(house)}
+                          className='p-2 text-blue-600 hover:bg-blue-50 rounded'>
+                          <Edit2 className='w-4 h-4' />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(house)}
+                          className='p-2 text-red-600 hover:bg-red-50 rounded'>
+                          <Trash2 className='w-4 h-4' />
+                        </button>
                       </div>
-                      <button
-                        onClick={() => handleEdit(house)}
-                        className='p-2 text-blue-600 hover:bg-blue-50 rounded'>
-                        <Edit2 className='w-4 h-4' />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(house)}
-                        className='p-2 text-red-600 hover:bg-red-50 rounded'>
-                        <Trash2 className='w-4 h-4' />
-                      </button>
                     </div>
-                  </div>
 
-                  <div className='grid grid-cols-2 md:grid-cols-4 gap-3 text-sm'>
-                    <div>
-                      <span className='font-semibold'>Price:</span> $
-                      {(house.price || 0).toLocaleString()}
-                    </div>
-                    <div>
-                      <span className='font-semibold'>Size:</span> {house.size}{' '}
-                      sqft
-                    </div>
-                    <div>
-                      <span className='font-semibold'>Beds/Baths:</span>{' '}
-                      {house.bedrooms} bed / {house.bathrooms} bath
-                    </div>
-                    <div>
-                      <span className='font-semibold'>Year:</span>{' '}
-                      {house.year_built}
-                    </div>
-                    <div>
-                      <span className='font-semibold'>Garage:</span>{' '}
-                      {house.garage_spaces} spaces
-                    </div>
-                    <div>
-                      <span className='font-semibold'>
-                        Distance from A & G:
-                      </span>{' '}
-                      {house.distance || 'N/A'}
-                    </div>
-                    <div>
-                      <span className='font-semibold'>HOA:</span> $
-                      {house.hoa_fee || 0}/mo
+                    <div className='grid grid-cols-2 md:grid-cols-4 gap-3 text-sm'>
+                      <div>
+                        <span className='font-semibold'>Price:</span> $
+                        {(house.price || 0).toLocaleString()}
+                      </div>
+                      <div>
+                        <span className='font-semibold'>Size:</span>{' '}
+                        {house.size} sqft
+                      </div>
+                      <div>
+                        <span className='font-semibold'>Beds/Baths:</span>{' '}
+                        {house.bedrooms} bed / {house.bathrooms} bath
+                      </div>
+                      <div>
+                        <span className='font-semibold'>Year:</span>{' '}
+                        {house.year_built}
+                      </div>
+                      <div>
+                        <span className='font-semibold'>Garage:</span>{' '}
+                        {house.garage_spaces} spaces
+                      </div>
+                      {destinations.map((destination) => (
+                        <div key={destination.id}>
+                          <span className='font-semibold'>
+                            Distance from {destination.name}:
+                          </span>{' '}
+                          {formatCommute(findCommute(house, destination.id)) ||
+                            'N/A'}
+                        </div>
+                      ))}
+                      <div>
+                        <span className='font-semibold'>HOA:</span> $
+                        {house.hoa_fee || 0}/mo
+                      </div>
+                      <div title={monthlyCostTitle(house)}>
+                        <span className='font-semibold'>Monthly:</span>{' '}
+                        {formatMonthly(monthlyCost(house, finance).total)}
+                      </div>
+                      {attributes
+                        .filter((a) => readCustomValue(house, a) !== null)
+                        .map((attribute) => (
+                          <div key={attribute.id}>
+                            <span className='font-semibold'>
+                              {attribute.name}:
+                            </span>{' '}
+                            {formatCustomValue(
+                              attribute,
+                              readCustomValue(house, attribute)
+                            )}
+                          </div>
+                        ))}
                     </div>
-                  </div>
 
-                  <div className='flex gap-2 mt-3 flex-wrap'>
-                    {(house.price || 0) > budgetLimit && (
-                      <span className='px-2 py-1 bg-red-100 text-red-700 text-xs rounded font-semibold'>
-                        Over Budget
-                      </span>
-                    )}
-                    {house.walk_in_closet && (
-                      <span className='px-2 py-1 bg-green-100 text-green-700 text-xs rounded'>
-                        Walk-in Closet
-                      </span>
+                    {consensus?.has(house.id) && (
+                      <div className='flex gap-2 mt-3 flex-wrap text-xs'>
+                        {consensus.get(house.id)!.raterScores.map((s) => (
+                          <span
+                            key={s.raterId}
+                            className='px-2 py-1 bg-indigo-50 text-indigo-700 rounded'>
+                            {s.name}: {s.score.toFixed(1)}
+                          </span>
+                        ))}
+                      </div>
                     )}
-                    {house.kitchen_island && (
-                      <span className='px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded'>
-                        Kitchen Island
-                      </span>
+
+                    <div className='flex gap-2 mt-3 flex-wrap'>
+                      {(house.price || 0) > budgetLimit && (
+                        <span className='px-2 py-1 bg-red-100 text-red-700 text-xs rounded font-semibold'>
+                          Over Budget
+                        </span>
+                      )}
+                      {filterResults.get(house.id)?.missing.map((label) => (
+                        <span
+                          key={label}
+                          className='px-2 py-1 bg-red-50 text-red-700 text-xs rounded'>
+                          Missing {label}
+                        </span>
+                      ))}
+                      {house.walk_in_closet && (
+                        <span className='px-2 py-1 bg-green-100 text-green-700 text-xs rounded'>
+                          Walk-in Closet
+                        </span>
+                      )}
+                      {house.kitchen_island && (
+                        <span className='px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded'>
+                          Kitchen Island
+                        </span>
+                      )}
+                      {!house.yard_maintenance && (
+                        <span className='px-2 py-1 bg-purple-100 text-purple-700 text-xs rounded'>
+                          Low/No Yard
+                        </span>
+                      )}
+                      {(consensus?.get(house.id)?.spread ?? 0) >= 15 && (
+                        <span className='px-2 py-1 bg-yellow-100 text-yellow-800 text-xs rounded font-semibold'>
+                          Raters Disagree
+                        </span>
+                      )}
+                      {house.status !== 'interested' && (
+                        <span
+                          className={`px-2 py-1 text-xs rounded font-semibold ${
+                            statusColors[house.status]
+                          }`}>
+                          {statusLabels[house.status]}
+                        </span>
+                      )}
+                      {historySummaries.has(house.id) && (
+                        <HistoryBadges
+                          summary={historySummaries.get(house.id)!}
+                        />
+                      )}
+                    </div>
+
+                    {hasTourNotes(house.tour_notes) && (
+                      <TourNotesSummary tour={house.tour_notes} />
                     )}
-                    {!house.yard_maintenance && (
-                      <span className='px-2 py-1 bg-purple-100 text-purple-700 text-xs rounded'>
-                        Low/No Yard
-                      </span>
+
+                    {historySummaries.has(house.id) && (
+                      <HouseTimeline
+                        summary={historySummaries.get(house.id)!}
+                      />
                     )}
-                    {house.sold && (
-                      <span className='px-2 py-1 bg-orange-100 text-orange-700 text-xs rounded font-semibold'>
-                        Sold
-                      </span>
+
+                    {breakdowns.has(house.id) && (
+                      <ScoreBreakdownPanel
+                        breakdown={breakdowns.get(house.id)!}
+                        profileName={
+                          rankingConsensus ? activeProfileName : undefined
+                        }
+                      />
                     )}
                   </div>
                 </div>
               </div>
-            </div>
-          ))}
-        </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   )
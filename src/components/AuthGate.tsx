@@ -0,0 +1,235 @@
+import { useEffect, useState, type ReactNode } from 'react'
+import type { Session } from '@supabase/supabase-js'
+import { Home } from 'lucide-react'
+import { getSupabase } from '../utils/supabase'
+import type { Household, HouseholdSession } from '../types/household'
+import {
+  signInWithMagicLink,
+  signInWithPassword,
+  signUpWithPassword
+} from '../utils/auth'
+import {
+  acceptInvite,
+  cacheHousehold,
+  clearPendingInvite,
+  createHousehold,
+  loadCachedHousehold,
+  loadHousehold,
+  pendingInviteToken
+} from '../utils/households'
+
+interface AuthGateProps {
+  children: (session: HouseholdSession) => ReactNode
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+
+const AuthGate = ({ children }: AuthGateProps) => {
+  const [session, setSession] = useState<Session | null>(null)
+  const [household, setHousehold] = useState<Household | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  // Set when the household couldn't be looked up and none was cached.
+  const [loadFailed, setLoadFailed] = useState(false)
+  const [loadAttempt, setLoadAttempt] = useState(0)
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [householdName, setHouseholdName] = useState('')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    getSupabase()
+      .auth.getSession()
+      .then(({ data }) => {
+        setSession(data.session)
+        if (!data.session) setIsLoading(false)
+      })
+    const { data } = getSupabase().auth.onAuthStateChange((_event, next) => {
+      setSession(next)
+      if (!next) {
+        setHousehold(null)
+        setLoadFailed(false)
+        setIsLoading(false)
+      }
+    })
+    return () => data.subscription.unsubscribe()
+  }, [])
+
+  const userId = session?.user.id
+  useEffect(() => {
+    if (!userId) return
+    const loadUserHousehold = async () => {
+      setIsLoading(true)
+      const token = pendingInviteToken()
+      if (token) {
+        if (!(await acceptInvite(token))) {
+          setMessage('That invite link is invalid or has expired.')
+        }
+        clearPendingInvite()
+      }
+      const lookup = await loadHousehold(userId)
+      if (lookup.kind === 'found') {
+        setHousehold(lookup.household)
+        await cacheHousehold(userId, lookup.household)
+      } else if (lookup.kind === 'none') {
+        setHousehold(null)
+      } else {
+        // Offline or failing: open the household from last time rather than
+        // offering to create a new one.
+        const cached = await loadCachedHousehold(userId)
+        setHousehold(cached)
+        setLoadFailed(!cached)
+      }
+      setIsLoading(false)
+    }
+    setLoadFailed(false)
+    loadUserHousehold()
+  }, [userId, loadAttempt])
+
+  const handlePassword = async (mode: 'sign-in' | 'sign-up') => {
+    setMessage('')
+    const error =
+      mode === 'sign-in'
+        ? await signInWithPassword(email, password)
+        : await signUpWithPassword(email, password)
+    if (error) setMessage(error)
+    else if (mode === 'sign-up') setMessage('Check your email to confirm.')
+  }
+
+  const handleMagicLink = async () => {
+    setMessage('')
+    const error = await signInWithMagicLink(email)
+    setMessage(error ?? 'Check your email for a sign-in link.')
+  }
+
+  const handleCreateHousehold = async () => {
+    if (!userId || householdName.trim() === '') return
+    const id = await createHousehold(householdName.trim())
+    if (id) {
+      const created = { id, name: householdName.trim() }
+      setHousehold(created)
+      await cacheHousehold(userId, created)
+    } else {
+      setMessage('Could not create the household.')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className='min-h-screen flex items-center justify-center text-gray-500'>
+        Loading…
+      </div>
+    )
+  }
+
+  if (session && household) {
+    return (
+      <>
+        {children({
+          userId: session.user.id,
+          email: session.user.email ?? '',
+          household
+        })}
+      </>
+    )
+  }
+
+  return (
+    <div className='min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4'>
+      <div className='bg-white rounded-lg shadow-lg p-6 w-full max-w-sm space-y-4'>
+        <h1 className='flex items-center gap-2 text-2xl font-bold text-gray-800'>
+          <Home className='w-7 h-7 text-indigo-600' />
+          House Rating
+        </h1>
+        {!session ? (
+          <>
+            {pendingInviteToken() && (
+              <p className='text-sm text-indigo-700'>
+                Sign in to join the household you were invited to.
+              </p>
+            )}
+            <input
+              type='email'
+              placeholder='Email'
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type='password'
+              placeholder='Password'
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClass}
+            />
+            <div className='flex gap-2'>
+              <button
+                onClick={() => handlePassword('sign-in')}
+                disabled={!email || !password}
+                className='flex-1 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50'>
+                Sign In
+              </button>
+              <button
+                onClick={() => handlePassword('sign-up')}
+                disabled={!email || !password}
+                className='flex-1 px-4 py-2 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50'>
+                Sign Up
+              </button>
+            </div>
+            <button
+              onClick={handleMagicLink}
+              disabled={!email}
+              className='w-full px-4 py-2 border border-indigo-600 text-indigo-600 rounded hover:bg-indigo-50 disabled:opacity-50'>
+              Email Me a Magic Link
+            </button>
+          </>
+        ) : loadFailed ? (
+          <>
+            <p className='text-sm text-gray-600'>
+              Signed in as {session.user.email}, but your household couldn't be
+              loaded. Check your connection and try again.
+            </p>
+            <button
+              onClick={() => setLoadAttempt((attempt) => attempt + 1)}
+              className='w-full px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700'>
+              Retry
+            </button>
+            <button
+              onClick={() => getSupabase().auth.signOut()}
+              className='w-full text-sm text-gray-500 hover:text-gray-700'>
+              Sign out
+            </button>
+          </>
+        ) : (
+          <>
+            <p className='text-sm text-gray-600'>
+              Signed in as {session.user.email}. Name your household to start,
+              or open an invite link from your partner to join theirs.
+            </p>
+            <input
+              type='text'
+              placeholder='Household name'
+              value={householdName}
+              onChange={(e) => setHouseholdName(e.target.value)}
+              className={inputClass}
+            />
+            <button
+              onClick={handleCreateHousehold}
+              disabled={householdName.trim() === ''}
+              className='w-full px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50'>
+              Create Household
+            </button>
+            <button
+              onClick={() => getSupabase().auth.signOut()}
+              className='w-full text-sm text-gray-500 hover:text-gray-700'>
+              Sign out
+            </button>
+          </>
+        )}
+        {message && <p className='text-sm text-gray-700'>{message}</p>}
+      </div>
+    </div>
+  )
+}
+
+export default AuthGate
@@ -0,0 +1,101 @@
+import { Fragment } from 'react'
+import { X } from 'lucide-react'
+import type { ComparisonRow } from '../types/comparison'
+import type { House } from '../types/house'
+
+interface ComparisonModalProps {
+  houses: House[]
+  rows: ComparisonRow[]
+  onRemove: (id: string) => void
+  onClose: () => void
+}
+
+const sectionLabels: Record<ComparisonRow['section'], string> = {
+  score: 'Overall',
+  details: 'Details',
+  'sub-scores': 'Sub-scores'
+}
+
+const cellClass = (row: ComparisonRow, index: number) => {
+  if (row.best.includes(index))
+    return 'bg-green-50 text-green-800 font-semibold'
+  if (row.worst.includes(index)) return 'bg-red-50 text-red-700'
+  return 'text-gray-700'
+}
+
+const ComparisonModal = ({
+  houses,
+  rows,
+  onRemove,
+  onClose
+}: ComparisonModalProps) => (
+  <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+    <div className='fixed inset-0 bg-black/75 z-40 backdrop-blur-sm' />
+    <div className='bg-white rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] overflow-y-auto z-50'>
+      <div className='sticky top-0 bg-white border-b border-gray-200 p-4 sm:p-6 flex justify-between items-center'>
+        <h3 className='text-lg sm:text-xl font-semibold text-gray-800'>
+          Compare {houses.length} Houses
+        </h3>
+        <button
+          onClick={onClose}
+          className='text-gray-500 hover:text-gray-700 p-2 hover:bg-gray-100 rounded-full transition-colors'>
+          <X className='w-5 h-5' />
+        </button>
+      </div>
+
+      <div className='p-4 sm:p-6 overflow-x-auto'>
+        <table className='w-full text-sm'>
+          <thead>
+            <tr className='border-b border-gray-200'>
+              <th className='py-2 pr-3' />
+              {houses.map((house) => (
+                <th key={house.id} className='py-2 px-3 text-left align-top'>
+                  <div className='flex items-start justify-between gap-2'>
+                    <span className='font-bold text-indigo-600'>
+                      {house.address}
+                    </span>
+                    <button
+                      onClick={() => onRemove(house.id)}
+                      title='Remove from comparison'
+                      className='text-gray-400 hover:text-gray-600'>
+                      <X className='w-4 h-4' />
+                    </button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <Fragment key={row.key}>
+                {(i === 0 || rows[i - 1].section !== row.section) && (
+                  <tr>
+                    <td
+                      colSpan={houses.length + 1}
+                      className='pt-4 pb-1 text-xs font-semibold uppercase text-gray-500'>
+                      {sectionLabels[row.section]}
+                    </td>
+                  </tr>
+                )}
+                <tr className='border-b border-gray-100'>
+                  <td className='py-1 pr-3 font-medium text-gray-700 whitespace-nowrap'>
+                    {row.label}
+                  </td>
+                  {row.values.map((value, index) => (
+                    <td
+                      key={houses[index].id}
+                      className={`py-1 px-3 ${cellClass(row, index)}`}>
+                      {value}
+                    </td>
+                  ))}
+                </tr>
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  </div>
+)
+
+export default ComparisonModal
@@ -0,0 +1,109 @@
+import { Users } from 'lucide-react'
+import type { Aggregation, ConsensusScore } from '../types/consensus'
+import type { House } from '../types/house'
+import type { WeightProfile } from '../types/weightProfile'
+import { aggregationLabels } from '../utils/consensus'
+
+interface ConsensusPanelProps {
+  profiles: WeightProfile[]
+  aggregation: Aggregation
+  rankByConsensus: boolean
+  disagreements: { house: House; consensus: ConsensusScore }[]
+  onToggleRater: (id: string) => void
+  onAggregationChange: (aggregation: Aggregation) => void
+  onRankByConsensusChange: (rankByConsensus: boolean) => void
+}
+
+const ConsensusPanel = ({
+  profiles,
+  aggregation,
+  rankByConsensus,
+  disagreements,
+  onToggleRater,
+  onAggregationChange,
+  onRankByConsensusChange
+}: ConsensusPanelProps) => {
+  const raterCount = profiles.filter((p) => p.is_rater).length
+
+  return (
+    <div className='mt-6'>
+      <h3 className='flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3'>
+        <Users className='w-4 h-4' />
+        Raters & Consensus
+      </h3>
+      <div className='p-4 bg-gray-50 rounded-lg space-y-4'>
+        <div className='flex flex-wrap gap-3'>
+          {profiles.map((profile) => (
+            <label
+              key={profile.id}
+              className='flex items-center gap-2 cursor-pointer'>
+              <input
+                type='checkbox'
+                checked={profile.is_rater}
+                onChange={() => onToggleRater(profile.id)}
+                className='w-4 h-4 text-indigo-600 rounded focus:ring-2 focus:ring-indigo-500'
+              />
+              <span className='text-sm'>{profile.name}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className='flex flex-wrap items-center gap-2'>
+          <span className='text-sm text-gray-600'>Combine scores by:</span>
+          {(Object.keys(aggregationLabels) as Aggregation[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => onAggregationChange(key)}
+              className={`px-3 py-1 text-sm rounded ${
+                aggregation === key ? 'bg-indigo-600 text-white' : 'bg-gray-200'
+              }`}>
+              {aggregationLabels[key]}
+            </button>
+          ))}
+        </div>
+
+        {raterCount < 2 ? (
+          <p className='text-sm text-gray-500'>
+            Select at least two raters to rank houses by consensus.
+          </p>
+        ) : (
+          <label className='flex items-center gap-2 text-sm text-gray-700 cursor-pointer'>
+            <input
+              type='checkbox'
+              checked={rankByConsensus}
+              onChange={(e) => onRankByConsensusChange(e.target.checked)}
+              className='w-4 h-4 text-indigo-600 rounded focus:ring-2 focus:ring-indigo-500'
+            />
+            Rank houses by consensus instead of the active profile
+          </label>
+        )}
+        {raterCount >= 2 && disagreements.length > 0 && (
+          <div>
+            <div className='text-sm font-semibold text-gray-700 mb-2'>
+              Biggest disagreements
+            </div>
+            <ul className='space-y-1 text-sm'>
+              {disagreements.map(({ house, consensus }) => (
+                <li key={house.id} className='flex flex-wrap gap-2'>
+                  <span className='font-medium text-gray-800'>
+                    {house.address}
+                  </span>
+                  <span className='text-gray-500'>
+                    {consensus.raterScores
+                      .map((s) => `${s.name} ${s.score.toFixed(1)}`)
+                      .join(' • ')}
+                  </span>
+                  <span className='text-orange-600'>
+                    (spread {consensus.spread.toFixed(1)})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ConsensusPanel
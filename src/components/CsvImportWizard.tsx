@@ -0,0 +1,391 @@
+import { useState } from 'react'
+import { CheckCircle, X, XCircle } from 'lucide-react'
+import type { House } from '../types/house'
+import type {
+  ColumnMapping,
+  FieldChange,
+  ImportAction,
+  ImportResult
+} from '../types/import'
+import type { Destination } from '../types/commute'
+import type { WriteStatus } from '../types/sync'
+import {
+  applyChanges,
+  autoMapHeaders,
+  buildImportPreview,
+  getImportFields,
+  importFieldKey
+} from '../utils/csvImport'
+import { formatCommute } from '../utils/commute'
+import type { CustomAttribute } from '../types/customAttribute'
+import { formatCustomValue } from '../utils/customAttributes'
+
+interface CsvImportWizardProps {
+  fileName: string
+  headers: string[]
+  rows: Record<string, string>[]
+  existingHouses: House[]
+  destinations: Destination[]
+  attributes: CustomAttribute[]
+  onSaveHouse: (house: House) => Promise<WriteStatus | null>
+  onUpdateHouse: (id: string, house: House) => Promise<WriteStatus | null>
+  onClose: () => void
+}
+
+type WizardStep = 'mapping' | 'preview' | 'summary'
+
+const actionStyles: Record<ImportAction, { label: string; className: string }> =
+  {
+    insert: { label: 'Insert', className: 'text-green-700' },
+    update: { label: 'Update', className: 'text-blue-700' },
+    unchanged: { label: 'Unchanged', className: 'text-gray-500' },
+    skip: { label: 'Skip', className: 'text-red-700' }
+  }
+
+const formatChangeValue = (
+  value: FieldChange['from'],
+  destinations: Destination[],
+  attributes: CustomAttribute[]
+) => {
+  if (Array.isArray(value)) {
+    return (
+      value
+        .map((commute) => {
+          const name =
+            destinations.find((d) => d.id === commute.destination_id)?.name ??
+            commute.destination_id
+          return `${name} ${formatCommute(commute)}`
+        })
+        .join(', ') || '(empty)'
+    )
+  }
+  if (value && typeof value === 'object') {
+    return (
+      attributes
+        .filter((a) => a.id in value)
+        .map(
+          (a) =>
+            `${a.name}: ${formatCustomValue(a, (value as House['custom'])[a.id])}`
+        )
+        .join(', ') || '(empty)'
+    )
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'number') return value.toLocaleString()
+  return value ? String(value) : '(empty)'
+}
+
+const CsvImportWizard = ({
+  fileName,
+  headers,
+  rows,
+  existingHouses,
+  destinations,
+  attributes,
+  onSaveHouse,
+  onUpdateHouse,
+  onClose
+}: CsvImportWizardProps) => {
+  const [step, setStep] = useState<WizardStep>('mapping')
+  const [fields] = useState(() => getImportFields(destinations, attributes))
+  const [mapping, setMapping] = useState<ColumnMapping>(() =>
+    autoMapHeaders(headers, fields)
+  )
+  const [results, setResults] = useState<ImportResult[]>([])
+  const [isImporting, setIsImporting] = useState(false)
+
+  const [preview, setPreview] = useState(() =>
+    buildImportPreview(rows, mapping, existingHouses, fields)
+  )
+
+  const countByAction = (action: ImportAction) =>
+    preview.filter((r) => r.action === action).length
+  const writeCount = countByAction('insert') + countByAction('update')
+
+  const handleMappingChange = (header: string, key: string) => {
+    setMapping((prev) => {
+      const next = { ...prev }
+      if (key) {
+        for (const other of Object.keys(next)) {
+          if (next[other] === key) next[other] = ''
+        }
+      }
+      next[header] = key
+      return next
+    })
+  }
+
+  const handleImport = async () => {
+    setIsImporting(true)
+    const imported: ImportResult[] = []
+    for (const row of preview) {
+      const result = {
+        line: row.line,
+        address: row.house.address
+      }
+      if (row.action === 'skip') {
+        imported.push({
+          ...result,
+          status: 'skipped',
+          message: row.errors.join('; ')
+        })
+      } else if (row.action === 'unchanged') {
+        imported.push({ ...result, status: 'unchanged' })
+      } else {
+        const saved =
+          row.action === 'update' && row.existing
+            ? await onUpdateHouse(
+                row.existing.id,
+                applyChanges(row.existing, row.changes)
+              )
+            : await onSaveHouse(row.house)
+        if (saved === 'saved') {
+          imported.push({
+            ...result,
+            status: row.action === 'update' ? 'updated' : 'inserted'
+          })
+        } else if (saved === 'queued') {
+          imported.push({ ...result, status: 'pending' })
+        } else {
+          imported.push({
+            ...result,
+            status: 'failed',
+            message: 'Could not save to the database'
+          })
+        }
+      }
+    }
+    setResults(imported)
+    setIsImporting(false)
+    setStep('summary')
+  }
+
+  const countByStatus = (status: ImportResult['status']) =>
+    results.filter((r) => r.status === status).length
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      <div className='fixed inset-0 bg-black/75 z-40 backdrop-blur-sm' />
+      <div className='bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto z-50'>
+        <div className='sticky top-0 bg-white border-b border-gray-200 p-4 sm:p-6 flex justify-between items-center'>
+          <div>
+            <h3 className='text-lg sm:text-xl font-semibold text-gray-800'>
+              Import {fileName}
+            </h3>
+            <p className='text-sm text-gray-500'>
+              {step === 'mapping' && 'Step 1 of 3: Match columns to fields'}
+              {step === 'preview' && 'Step 2 of 3: Review rows'}
+              {step === 'summary' && 'Step 3 of 3: Summary'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className='text-gray-500 hover:text-gray-700 p-2 hover:bg-gray-100 rounded-full transition-colors'>
+            <X className='w-5 h-5' />
+          </button>
+        </div>
+
+        <div className='p-4 sm:p-6'>
+          {step === 'mapping' && (
+            <div className='grid grid-cols-1 sm:grid-cols-2 gap-3'>
+              {headers.map((header) => (
+                <label
+                  key={header}
+                  className='flex items-center justify-between gap-3 p-3 bg-gray-50 rounded'>
+                  <span className='text-sm font-medium text-gray-700 truncate'>
+                    {header}
+                  </span>
+                  <select
+                    value={mapping[header] ?? ''}
+                    onChange={(e) =>
+                      handleMappingChange(header, e.target.value)
+                    }
+                    className='px-2 py-1 border border-gray-300 rounded text-sm'>
+                    <option value=''>Ignore column</option>
+                    {fields.map((f) => (
+                      <option key={importFieldKey(f)} value={importFieldKey(f)}>
+                        {f.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className='overflow-x-auto'>
+              <p className='text-sm text-gray-600 mb-3'>
+                {countByAction('insert')} new, {countByAction('update')}{' '}
+                updated, {countByAction('unchanged')} unchanged and{' '}
+                {countByAction('skip')} skipped of {preview.length} rows.
+              </p>
+              <table className='w-full text-sm'>
+                <thead>
+                  <tr className='text-left text-gray-500 border-b border-gray-200'>
+                    <th className='py-1 pr-3'>Line</th>
+                    <th className='py-1 pr-3'>Action</th>
+                    <th className='py-1 pr-3'>Address</th>
+                    <th className='py-1 pr-3'>City</th>
+                    <th className='py-1 pr-3'>Price</th>
+                    <th className='py-1 pr-3'>Beds/Baths</th>
+                    <th className='py-1'>Changes / Problems</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((row) => (
+                    <tr
+                      key={row.line}
+                      className={`border-b border-gray-100 ${
+                        row.action === 'skip' ? 'bg-red-50' : ''
+                      }`}>
+                      <td className='py-1 pr-3 text-gray-500'>{row.line}</td>
+                      <td className='py-1 pr-3'>
+                        <span className={actionStyles[row.action].className}>
+                          {actionStyles[row.action].label}
+                        </span>
+                      </td>
+                      <td className='py-1 pr-3'>{row.house.address}</td>
+                      <td className='py-1 pr-3'>{row.house.city}</td>
+                      <td className='py-1 pr-3'>
+                        ${(row.house.price || 0).toLocaleString()}
+                      </td>
+                      <td className='py-1 pr-3'>
+                        {row.house.bedrooms} / {row.house.bathrooms}
+                      </td>
+                      <td className='py-1'>
+                        {row.errors.length > 0 ? (
+                          <span className='text-red-700'>
+                            {row.errors.join('; ')}
+                          </span>
+                        ) : (
+                          <ul className='text-blue-700'>
+                            {row.changes.map((c) => (
+                              <li key={c.field}>
+                                {c.label}:{' '}
+                                {formatChangeValue(
+                                  c.from,
+                                  destinations,
+                                  attributes
+                                )}{' '}
+                                →{' '}
+                                {formatChangeValue(
+                                  c.to,
+                                  destinations,
+                                  attributes
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {step === 'summary' && (
+            <div className='space-y-3'>
+              <div className='flex gap-4 text-sm'>
+                <span className='text-green-700 font-semibold'>
+                  {countByStatus('inserted')} imported
+                </span>
+                <span className='text-blue-700 font-semibold'>
+                  {countByStatus('updated')} updated
+                </span>
+                {countByStatus('pending') > 0 && (
+                  <span className='text-amber-700 font-semibold'>
+                    {countByStatus('pending')} pending
+                  </span>
+                )}
+                <span className='text-gray-500 font-semibold'>
+                  {countByStatus('unchanged')} unchanged
+                </span>
+                <span className='text-red-700 font-semibold'>
+                  {countByStatus('failed')} failed
+                </span>
+                <span className='text-gray-600 font-semibold'>
+                  {countByStatus('skipped')} skipped
+                </span>
+              </div>
+              <ul className='space-y-1 text-sm'>
+                {results
+                  .filter(
+                    (r) => r.status === 'failed' || r.status === 'skipped'
+                  )
+                  .map((r) => (
+                    <li key={r.line} className='flex items-start gap-2'>
+                      <XCircle className='w-4 h-4 text-red-600 mt-0.5 shrink-0' />
+                      <span>
+                        Line {r.line}
+                        {r.address ? ` (${r.address})` : ''}: {r.message}
+                      </span>
+                    </li>
+                  ))}
+              </ul>
+              {countByStatus('pending') > 0 && (
+                <p className='text-sm text-amber-700'>
+                  {countByStatus('pending')} row
+                  {countByStatus('pending') === 1 ? ' is' : 's are'} saved on
+                  this device and will sync when the connection is back.
+                </p>
+              )}
+              {countByStatus('failed') +
+                countByStatus('skipped') +
+                countByStatus('pending') ===
+                0 && (
+                <p className='flex items-center gap-2 text-sm text-green-700'>
+                  <CheckCircle className='w-4 h-4' />
+                  Every row was imported.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className='mt-6 flex flex-col sm:flex-row gap-3 sm:justify-end'>
+            {step === 'preview' && (
+              <button
+                onClick={() => setStep('mapping')}
+                disabled={isImporting}
+                className='px-6 py-2 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors'>
+                Back
+              </button>
+            )}
+            {step === 'mapping' && (
+              <button
+                onClick={() => {
+                  setPreview(
+                    buildImportPreview(rows, mapping, existingHouses, fields)
+                  )
+                  setStep('preview')
+                }}
+                disabled={!Object.values(mapping).includes('address')}
+                className='px-6 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50'>
+                Preview
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                onClick={handleImport}
+                disabled={isImporting || writeCount === 0}
+                className='px-6 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50'>
+                {isImporting ? 'Importing...' : `Apply ${writeCount} Changes`}
+              </button>
+            )}
+            {step === 'summary' && (
+              <button
+                onClick={onClose}
+                className='px-6 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors'>
+                Done
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CsvImportWizard
@@ -0,0 +1,79 @@
+import type { CustomAttribute, CustomValue } from '../types/customAttribute'
+import type { House } from '../types/house'
+
+interface CustomAttributeFieldsProps {
+  attributes: CustomAttribute[]
+  values: House['custom'] | undefined
+  onChange: (attributeId: string, value: CustomValue) => void
+}
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+
+const CustomAttributeFields = ({
+  attributes,
+  values,
+  onChange
+}: CustomAttributeFieldsProps) => {
+  if (attributes.length === 0) return null
+
+  return (
+    <div className='grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4'>
+      {attributes.map((attribute) => {
+        const value = values?.[attribute.id] ?? null
+        if (attribute.type === 'boolean') {
+          return (
+            <label
+              key={attribute.id}
+              className='flex items-center gap-2 cursor-pointer'>
+              <input
+                type='checkbox'
+                checked={value === true}
+                onChange={(e) => onChange(attribute.id, e.target.checked)}
+                className='w-4 h-4 text-indigo-600 rounded focus:ring-2 focus:ring-indigo-500'
+              />
+              <span className='text-sm'>{attribute.name}</span>
+            </label>
+          )
+        }
+        if (attribute.type === 'enum') {
+          return (
+            <select
+              key={attribute.id}
+              value={value === null ? '' : String(value)}
+              onChange={(e) => onChange(attribute.id, e.target.value || null)}
+              className={inputClass}>
+              <option value=''>{attribute.name}</option>
+              {attribute.options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          )
+        }
+        return (
+          <input
+            key={attribute.id}
+            type={attribute.type === 'number' ? 'number' : 'text'}
+            placeholder={attribute.name}
+            value={value === null ? '' : String(value)}
+            onChange={(e) =>
+              onChange(
+                attribute.id,
+                e.target.value === ''
+                  ? null
+                  : attribute.type === 'number'
+                    ? parseFloat(e.target.value)
+                    : e.target.value
+              )
+            }
+            className={inputClass}
+          />
+        )
+      })}
+    </div>
+  )
+}
+
+export default CustomAttributeFields
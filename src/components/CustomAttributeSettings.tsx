@@ -0,0 +1,203 @@
+import { ListPlus, Plus, Trash2 } from 'lucide-react'
+import type {
+  CustomAttribute,
+  CustomAttributeType
+} from '../types/customAttribute'
+import {
+  customAttributeTypes,
+  defaultOptionScores
+} from '../utils/customAttributes'
+
+interface CustomAttributeSettingsProps {
+  attributes: CustomAttribute[]
+  onAdd: (name: string, type: CustomAttributeType) => void
+  onChange: (attribute: CustomAttribute) => void
+  onDelete: (id: string) => void
+}
+
+const CustomAttributeSettings = ({
+  attributes,
+  onAdd,
+  onChange,
+  onDelete
+}: CustomAttributeSettingsProps) => {
+  const handleAdd = (type: CustomAttributeType) => {
+    const name = window.prompt('Attribute name (e.g., Has Basement)')
+    if (name && name.trim() !== '') onAdd(name.trim(), type)
+  }
+
+  const handleDelete = (attribute: CustomAttribute) => {
+    if (
+      window.confirm(
+        `Are you sure you want to delete "${attribute.name}"? Values entered for it will no longer be shown or scored.`
+      )
+    ) {
+      onDelete(attribute.id)
+    }
+  }
+
+  const handleOptionsChange = (attribute: CustomAttribute, text: string) => {
+    const options = text
+      .split(',')
+      .map((o) => o.trim())
+      .filter((o) => o !== '')
+    onChange({
+      ...attribute,
+      options,
+      option_scores: {
+        ...defaultOptionScores(options),
+        ...Object.fromEntries(
+          Object.entries(attribute.option_scores).filter(([o]) =>
+            options.includes(o)
+          )
+        )
+      }
+    })
+  }
+
+  return (
+    <div className='mb-6'>
+      <h3 className='flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3'>
+        <ListPlus className='w-4 h-4' />
+        Custom Attributes
+      </h3>
+      <div className='space-y-3'>
+        {attributes.map((attribute) => (
+          <div
+            key={attribute.id}
+            className='grid grid-cols-1 md:grid-cols-4 gap-3 items-center bg-gray-50 p-3 rounded'>
+            <input
+              type='text'
+              value={attribute.name}
+              onChange={(e) => onChange({ ...attribute, name: e.target.value })}
+              className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+            />
+            <span className='text-sm text-gray-600'>
+              {customAttributeTypes[attribute.type]}
+            </span>
+            <div className='text-sm text-gray-700'>
+              {attribute.type === 'boolean' && (
+                <label className='flex items-center gap-2'>
+                  Prefer
+                  <select
+                    value={attribute.prefer ? 'yes' : 'no'}
+                    onChange={(e) =>
+                      onChange({
+                        ...attribute,
+                        prefer: e.target.value === 'yes'
+                      })
+                    }
+                    className='px-2 py-1 border border-gray-300 rounded'>
+                    <option value='yes'>Yes</option>
+                    <option value='no'>No</option>
+                  </select>
+                </label>
+              )}
+              {attribute.type === 'number' && (
+                <div className='flex items-center gap-2'>
+                  <input
+                    type='number'
+                    value={attribute.min}
+                    onChange={(e) =>
+                      onChange({
+                        ...attribute,
+                        min: parseFloat(e.target.value) || 0
+                      })
+                    }
+                    className='w-16 px-2 py-1 border border-gray-300 rounded'
+                  />
+                  –
+                  <input
+                    type='number'
+                    value={attribute.max}
+                    onChange={(e) =>
+                      onChange({
+                        ...attribute,
+                        max: parseFloat(e.target.value) || 0
+                      })
+                    }
+                    className='w-16 px-2 py-1 border border-gray-300 rounded'
+                  />
+                  <select
+                    value={attribute.direction}
+                    onChange={(e) =>
+                      onChange({
+                        ...attribute,
+                        direction: e.target
+                          .value as CustomAttribute['direction']
+                      })
+                    }
+                    className='px-2 py-1 border border-gray-300 rounded'>
+                    <option value='higher'>Higher is better</option>
+                    <option value='lower'>Lower is better</option>
+                  </select>
+                </div>
+              )}
+              {attribute.type === 'enum' && (
+                <div className='space-y-2'>
+                  <input
+                    type='text'
+                    defaultValue={attribute.options.join(', ')}
+                    onBlur={(e) =>
+                      handleOptionsChange(attribute, e.target.value)
+                    }
+                    placeholder='Options, best first'
+                    className='w-full px-2 py-1 border border-gray-300 rounded'
+                  />
+                  <div className='flex flex-wrap gap-2'>
+                    {attribute.options.map((option) => (
+                      <label
+                        key={option}
+                        className='flex items-center gap-1 text-xs'>
+                        {option}
+                        <input
+                          type='number'
+                          min='0'
+                          max='100'
+                          value={attribute.option_scores[option] ?? 50}
+                          onChange={(e) =>
+                            onChange({
+                              ...attribute,
+                              option_scores: {
+                                ...attribute.option_scores,
+                                [option]: parseFloat(e.target.value) || 0
+                              }
+                            })
+                          }
+                          className='w-14 px-1 py-1 border border-gray-300 rounded'
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {attribute.type === 'text' && (
+                <span className='text-gray-500'>Not scored</span>
+              )}
+            </div>
+            <button
+              onClick={() => handleDelete(attribute)}
+              className='justify-self-end p-2 text-red-600 hover:bg-red-50 rounded'>
+              <Trash2 className='w-4 h-4' />
+            </button>
+          </div>
+        ))}
+        <div className='flex flex-wrap gap-2'>
+          {(Object.keys(customAttributeTypes) as CustomAttributeType[]).map(
+            (type) => (
+              <button
+                key={type}
+                onClick={() => handleAdd(type)}
+                className='flex items-center gap-2 px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300'>
+                <Plus className='w-4 h-4' />
+                {customAttributeTypes[type]}
+              </button>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CustomAttributeSettings
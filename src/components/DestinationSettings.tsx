@@ -0,0 +1,126 @@
+import { MapPin, Plus, Trash2 } from 'lucide-react'
+import type { Destination } from '../types/commute'
+import { hasLocation } from '../utils/geo'
+
+interface DestinationSettingsProps {
+  destinations: Destination[]
+  onAdd: (name: string) => void
+  onChange: (destination: Destination) => void
+  onDelete: (id: string) => void
+  onLocate: (destination: Destination, address: string) => void
+}
+
+const DestinationSettings = ({
+  destinations,
+  onAdd,
+  onChange,
+  onDelete,
+  onLocate
+}: DestinationSettingsProps) => {
+  const handleLocate = (destination: Destination) => {
+    const address = window.prompt(
+      `Address of ${destination.name} (shown as a pin on the map)`
+    )
+    if (address && address.trim() !== '') onLocate(destination, address.trim())
+  }
+
+  const handleAdd = () => {
+    const name = window.prompt('Destination name (e.g., Work, Gym)')
+    if (name && name.trim() !== '') onAdd(name.trim())
+  }
+
+  const handleDelete = (destination: Destination) => {
+    if (
+      window.confirm(
+        `Are you sure you want to delete "${destination.name}"? Commute times entered for it will no longer be scored.`
+      )
+    ) {
+      onDelete(destination.id)
+    }
+  }
+
+  return (
+    <div className='mb-6'>
+      <h3 className='flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3'>
+        <MapPin className='w-4 h-4' />
+        Commute Destinations
+      </h3>
+      <div className='space-y-3'>
+        {destinations.map((destination) => (
+          <div
+            key={destination.id}
+            className='grid grid-cols-1 md:grid-cols-4 gap-3 items-center bg-gray-50 p-3 rounded'>
+            <input
+              type='text'
+              value={destination.name}
+              onChange={(e) =>
+                onChange({ ...destination, name: e.target.value })
+              }
+              className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+            />
+            <label className='block text-sm font-medium text-gray-700'>
+              Weight: {destination.weight}
+              <input
+                type='range'
+                min='0'
+                max='10'
+                step='1'
+                value={destination.weight}
+                onChange={(e) =>
+                  onChange({
+                    ...destination,
+                    weight: parseFloat(e.target.value)
+                  })
+                }
+                className='w-full'
+              />
+            </label>
+            <label className='flex items-center gap-2 text-sm text-gray-700'>
+              Max
+              <input
+                type='number'
+                min='1'
+                value={destination.max_minutes}
+                onChange={(e) =>
+                  onChange({
+                    ...destination,
+                    max_minutes: Math.max(1, parseFloat(e.target.value) || 1)
+                  })
+                }
+                className='w-20 px-2 py-1 border border-gray-300 rounded'
+              />
+              min
+            </label>
+            <div className='justify-self-end flex gap-1'>
+              <button
+                onClick={() => handleLocate(destination)}
+                title={
+                  hasLocation(destination)
+                    ? 'Change map location'
+                    : 'Set map location'
+                }
+                className={`p-2 rounded hover:bg-indigo-50 ${
+                  hasLocation(destination) ? 'text-indigo-600' : 'text-gray-400'
+                }`}>
+                <MapPin className='w-4 h-4' />
+              </button>
+              <button
+                onClick={() => handleDelete(destination)}
+                className='p-2 text-red-600 hover:bg-red-50 rounded'>
+                <Trash2 className='w-4 h-4' />
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={handleAdd}
+          className='flex items-center gap-2 px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300'>
+          <Plus className='w-4 h-4' />
+          Add Destination
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default DestinationSettings
@@ -0,0 +1,313 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, Filter, Save, Trash2 } from 'lucide-react'
+import type {
+  HouseFilter,
+  MustHave,
+  NumericRange,
+  RangeField,
+  SavedFilter
+} from '../types/filter'
+import {
+  countActiveFilters,
+  emptyFilter,
+  mustHaveLabels,
+  rangeFields
+} from '../utils/filters'
+import { houseStatuses, statusLabels } from '../utils/status'
+
+interface FilterPanelProps {
+  filter: HouseFilter
+  cities: string[]
+  styles: string[]
+  savedFilters: SavedFilter[]
+  visibleCount: number
+  totalCount: number
+  onChange: (filter: HouseFilter) => void
+  onSave: (name: string) => void
+  onDeleteSaved: (id: string) => void
+}
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+
+const FilterPanel = ({
+  filter,
+  cities,
+  styles,
+  savedFilters,
+  visibleCount,
+  totalCount,
+  onChange,
+  onSave,
+  onDeleteSaved
+}: FilterPanelProps) => {
+  const [isCollapsed, setIsCollapsed] = useState(true)
+  const [selectedSavedId, setSelectedSavedId] = useState('')
+  const activeCount = countActiveFilters(filter)
+
+  const handleRangeChange = (
+    field: RangeField,
+    bound: keyof NumericRange,
+    value: string
+  ) => {
+    const range = filter.ranges[field] ?? { min: null, max: null }
+    onChange({
+      ...filter,
+      ranges: {
+        ...filter.ranges,
+        [field]: { ...range, [bound]: value === '' ? null : parseFloat(value) }
+      }
+    })
+  }
+
+  const handleApplySaved = (id: string) => {
+    setSelectedSavedId(id)
+    const saved = savedFilters.find((s) => s.id === id)
+    if (saved) onChange({ ...emptyFilter, ...saved.filter })
+  }
+
+  const handleSave = () => {
+    const name = window.prompt('Name this filter set')
+    if (name && name.trim() !== '') onSave(name.trim())
+  }
+
+  const handleDeleteSaved = () => {
+    const saved = savedFilters.find((s) => s.id === selectedSavedId)
+    if (
+      saved &&
+      window.confirm(`Are you sure you want to delete "${saved.name}"?`)
+    ) {
+      onDeleteSaved(saved.id)
+      setSelectedSavedId('')
+    }
+  }
+
+  return (
+    <div className='mb-4 border border-gray-200 rounded-lg'>
+      <button
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className='w-full flex items-center justify-between p-4 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors'>
+        <div className='flex items-center gap-2'>
+          <Filter className='w-5 h-5 text-gray-600' />
+          <h2 className='text-xl font-semibold text-gray-700'>Filters</h2>
+          {activeCount > 0 && (
+            <span className='px-2 py-0.5 bg-indigo-100 text-indigo-700 text-xs rounded-full font-semibold'>
+              {activeCount} active • {visibleCount} of {totalCount} shown
+            </span>
+          )}
+        </div>
+        {isCollapsed ? (
+          <ChevronDown className='w-5 h-5 text-gray-600' />
+        ) : (
+          <ChevronUp className='w-5 h-5 text-gray-600' />
+        )}
+      </button>
+
+      {!isCollapsed && (
+        <div className='p-4 space-y-4'>
+          <div className='flex flex-wrap items-center gap-2'>
+            <select
+              value={selectedSavedId}
+              onChange={(e) => handleApplySaved(e.target.value)}
+              className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'>
+              <option value=''>Saved filter sets...</option>
+              {savedFilters.map((saved) => (
+                <option key={saved.id} value={saved.id}>
+                  {saved.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleSave}
+              title='Save current filters'
+              className='p-2 text-indigo-600 hover:bg-indigo-50 rounded'>
+              <Save className='w-4 h-4' />
+            </button>
+            <button
+              onClick={handleDeleteSaved}
+              disabled={!selectedSavedId}
+              title='Delete saved filter set'
+              className='p-2 text-red-600 hover:bg-red-50 rounded disabled:opacity-50'>
+              <Trash2 className='w-4 h-4' />
+            </button>
+            <button
+              onClick={() => {
+                setSelectedSavedId('')
+                onChange(emptyFilter)
+              }}
+              className='ml-auto px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300'>
+              Clear All
+            </button>
+          </div>
+
+          <div className='grid grid-cols-2 md:grid-cols-3 gap-3'>
+            {rangeFields.map(({ field, label }) => (
+              <div key={field} className='bg-gray-50 p-3 rounded'>
+                <div className='text-sm font-medium text-gray-700 mb-1'>
+                  {label}
+                </div>
+                <div className='flex items-center gap-2'>
+                  <input
+                    type='number'
+                    placeholder='Min'
+                    value={filter.ranges[field]?.min ?? ''}
+                    onChange={(e) =>
+                      handleRangeChange(field, 'min', e.target.value)
+                    }
+                    className='w-full px-2 py-1 border border-gray-300 rounded text-sm'
+                  />
+                  <span className='text-gray-400'>–</span>
+                  <input
+                    type='number'
+                    placeholder='Max'
+                    value={filter.ranges[field]?.max ?? ''}
+                    onChange={(e) =>
+                      handleRangeChange(field, 'max', e.target.value)
+                    }
+                    className='w-full px-2 py-1 border border-gray-300 rounded text-sm'
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className='flex flex-wrap items-center gap-4 p-3 bg-gray-50 rounded'>
+            <span className='text-sm font-medium text-gray-700'>
+              Must-haves:
+            </span>
+            {(Object.keys(mustHaveLabels) as MustHave[]).map((mustHave) => (
+              <label
+                key={mustHave}
+                className='flex items-center gap-2 cursor-pointer'>
+                <input
+                  type='checkbox'
+                  checked={filter.mustHaves.includes(mustHave)}
+                  onChange={() =>
+                    onChange({
+                      ...filter,
+                      mustHaves: toggle(filter.mustHaves, mustHave)
+                    })
+                  }
+                  className='w-4 h-4 text-indigo-600 rounded focus:ring-2 focus:ring-indigo-500'
+                />
+                <span className='text-sm'>{mustHaveLabels[mustHave]}</span>
+              </label>
+            ))}
+            <label className='flex items-center gap-2 text-sm'>
+              Garage ≥
+              <input
+                type='number'
+                min='0'
+                value={filter.minGarageSpaces ?? ''}
+                onChange={(e) =>
+                  onChange({
+                    ...filter,
+                    minGarageSpaces:
+                      e.target.value === '' ? null : parseInt(e.target.value)
+                  })
+                }
+                className='w-16 px-2 py-1 border border-gray-300 rounded'
+              />
+            </label>
+          </div>
+
+          {[
+            { label: 'Cities', options: cities, key: 'cities' as const },
+            { label: 'Styles', options: styles, key: 'styles' as const }
+          ].map(
+            ({ label, options, key }) =>
+              options.length > 0 && (
+                <div key={key} className='flex flex-wrap items-center gap-2'>
+                  <span className='text-sm font-medium text-gray-700'>
+                    {label}:
+                  </span>
+                  {options.map((option) => (
+                    <button
+                      key={option}
+                      onClick={() =>
+                        onChange({
+                          ...filter,
+                          [key]: toggle(filter[key], option)
+                        })
+                      }
+                      className={`px-3 py-1 text-sm rounded ${
+                        filter[key].includes(option)
+                          ? 'bg-indigo-600 text-white'
+                          : 'bg-gray-200'
+                      }`}>
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              )
+          )}
+
+          <div className='flex flex-wrap items-center gap-2'>
+            <span className='text-sm font-medium text-gray-700'>Status:</span>
+            {houseStatuses.map((status) => (
+              <button
+                key={status}
+                onClick={() =>
+                  onChange({
+                    ...filter,
+                    statuses: toggle(filter.statuses, status)
+                  })
+                }
+                className={`px-3 py-1 text-sm rounded ${
+                  filter.statuses.includes(status)
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-gray-200'
+                }`}>
+                {statusLabels[status]}
+              </button>
+            ))}
+          </div>
+
+          {filter.area && (
+            <div className='flex items-center gap-2 text-sm text-gray-700'>
+              Only houses inside the area drawn on the map
+              <button
+                onClick={() => onChange({ ...filter, area: null })}
+                className='px-2 py-1 text-xs bg-gray-200 rounded hover:bg-gray-300'>
+                Clear Area
+              </button>
+            </div>
+          )}
+
+          <div className='flex flex-wrap gap-4'>
+            {[
+              {
+                key: 'hideClosed' as const,
+                label: 'Hide sold, withdrawn and rejected'
+              },
+              {
+                key: 'hardBudget' as const,
+                label: 'Hide houses over budget'
+              },
+              {
+                key: 'hardMustHaves' as const,
+                label: 'Hide houses missing a must-have'
+              }
+            ].map(({ key, label }) => (
+              <label
+                key={key}
+                className='flex items-center gap-2 cursor-pointer'>
+                <input
+                  type='checkbox'
+                  checked={filter[key]}
+                  onChange={(e) =>
+                    onChange({ ...filter, [key]: e.target.checked })
+                  }
+                  className='w-4 h-4 text-indigo-600 rounded focus:ring-2 focus:ring-indigo-500'
+                />
+                <span className='text-sm'>{label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FilterPanel
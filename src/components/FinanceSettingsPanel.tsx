@@ -0,0 +1,71 @@
+import { DollarSign } from 'lucide-react'
+import type { FinanceSettings } from '../types/finance'
+
+interface FinanceSettingsPanelProps {
+  settings: FinanceSettings
+  onChange: (settings: FinanceSettings) => void
+}
+
+const numberFields: {
+  key: keyof Omit<FinanceSettings, 'score_by_monthly_cost'>
+  label: string
+  step: string
+}[] = [
+  { key: 'down_payment_percent', label: 'Down Payment (%)', step: '1' },
+  { key: 'interest_rate', label: 'Interest Rate (%)', step: '0.125' },
+  { key: 'term_years', label: 'Term (years)', step: '5' },
+  { key: 'property_tax_rate', label: 'Property Tax (%/yr)', step: '0.1' },
+  { key: 'insurance_per_year', label: 'Insurance ($/yr)', step: '100' },
+  { key: 'pmi_rate', label: 'PMI (%/yr)', step: '0.1' },
+  { key: 'min_monthly_cost', label: 'Ideal Monthly Cost ($)', step: '100' },
+  { key: 'max_monthly_cost', label: 'Max Monthly Cost ($)', step: '100' }
+]
+
+const FinanceSettingsPanel = ({
+  settings,
+  onChange
+}: FinanceSettingsPanelProps) => (
+  <div className='mb-6'>
+    <h3 className='flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3'>
+      <DollarSign className='w-4 h-4' />
+      Monthly Cost of Ownership
+    </h3>
+    <div className='p-4 bg-gray-50 rounded-lg'>
+      <div className='grid grid-cols-2 md:grid-cols-4 gap-3'>
+        {numberFields.map(({ key, label, step }) => (
+          <label key={key} className='block text-sm text-gray-700'>
+            {label}
+            <input
+              type='number'
+              min='0'
+              step={step}
+              value={settings[key]}
+              onChange={(e) =>
+                onChange({
+                  ...settings,
+                  [key]: parseFloat(e.target.value) || 0
+                })
+              }
+              className='mt-1 w-full px-2 py-1 border border-gray-300 rounded'
+            />
+          </label>
+        ))}
+      </div>
+      <label className='flex items-center gap-2 mt-4 cursor-pointer'>
+        <input
+          type='checkbox'
+          checked={settings.score_by_monthly_cost}
+          onChange={(e) =>
+            onChange({ ...settings, score_by_monthly_cost: e.target.checked })
+          }
+          className='w-4 h-4 text-indigo-600 rounded focus:ring-2 focus:ring-indigo-500'
+        />
+        <span className='text-sm'>
+          Score by monthly cost instead of separate price and HOA
+        </span>
+      </label>
+    </div>
+  </div>
+)
+
+export default FinanceSettingsPanel
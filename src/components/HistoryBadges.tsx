@@ -0,0 +1,25 @@
+import type { HistorySummary } from '../types/history'
+
+const HistoryBadges = ({ summary }: { summary: HistorySummary }) => (
+  <>
+    {summary.priceChangePercent !== null && (
+      <span
+        className={`px-2 py-1 text-xs rounded font-semibold ${
+          summary.priceChangePercent < 0
+            ? 'bg-green-100 text-green-700'
+            : 'bg-red-100 text-red-700'
+        }`}>
+        Price {summary.priceChangePercent < 0 ? 'dropped' : 'rose'}{' '}
+        {Math.abs(summary.priceChangePercent).toFixed(1)}% since added
+      </span>
+    )}
+    {summary.daysOnList !== null && (
+      <span className='px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded'>
+        {summary.daysOnList} {summary.daysOnList === 1 ? 'day' : 'days'} on our
+        list
+      </span>
+    )}
+  </>
+)
+
+export default HistoryBadges
@@ -0,0 +1,51 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronUp } from 'lucide-react'
+import type { HistorySummary } from '../types/history'
+import { formatHistoryValue, trackedFields } from '../utils/history'
+
+const HouseTimeline = ({ summary }: { summary: HistorySummary }) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  return (
+    <div className='mt-3 border-t border-gray-100 pt-3'>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className='flex items-center gap-1 text-sm font-semibold text-indigo-600 hover:text-indigo-800'>
+        {isExpanded ? (
+          <ChevronUp className='w-4 h-4' />
+        ) : (
+          <ChevronDown className='w-4 h-4' />
+        )}
+        History ({summary.events.length})
+      </button>
+
+      {isExpanded && (
+        <ol className='mt-3 space-y-2 border-l-2 border-indigo-100 pl-4 text-xs sm:text-sm'>
+          {summary.events.map((e) => (
+            <li key={e.id}>
+              <span className='text-gray-500 mr-2'>
+                {new Date(e.recorded_at).toLocaleDateString()}
+              </span>
+              {e.event === 'added' ? (
+                <span className='text-gray-700'>
+                  Added to our list at{' '}
+                  {formatHistoryValue(e.field, e.new_value)}
+                </span>
+              ) : (
+                <span className='text-gray-700'>
+                  <span className='font-semibold'>
+                    {e.field ? trackedFields[e.field] : 'Unknown'}
+                  </span>{' '}
+                  {formatHistoryValue(e.field, e.old_value)} →{' '}
+                  {formatHistoryValue(e.field, e.new_value)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+export default HouseTimeline
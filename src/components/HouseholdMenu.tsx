@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react'
+import { CloudUpload, LogOut, UserPlus } from 'lucide-react'
+import type { HouseholdSession } from '../types/household'
+import { signOut } from '../utils/auth'
+import { createInvite, inviteLink } from '../utils/households'
+import { repository } from '../utils/repository'
+import {
+  clearLocalData,
+  countLocalHouses,
+  localRepository,
+  localSession
+} from '../utils/localRepository'
+import { transferHousehold } from '../utils/repositoryTransfer'
+
+const HouseholdMenu = ({ session }: { session: HouseholdSession }) => {
+  const [localHouses, setLocalHouses] = useState(0)
+  const [isTransferring, setIsTransferring] = useState(false)
+
+  useEffect(() => {
+    if (repository.source !== 'local') countLocalHouses().then(setLocalHouses)
+  }, [])
+
+  const handleInvite = async () => {
+    const invite = await createInvite(session.household.id, session.userId)
+    if (!invite) {
+      window.alert('Could not create an invite link.')
+      return
+    }
+    window.prompt(
+      `Send this link to your partner. It works once and expires ${new Date(
+        invite.expires_at
+      ).toLocaleDateString()}.`,
+      inviteLink(invite)
+    )
+  }
+
+  const handleTransfer = async () => {
+    if (
+      !window.confirm(
+        `Move ${localHouses} house${
+          localHouses === 1 ? '' : 's'
+        } and their settings from this browser into ${session.household.name}?`
+      )
+    ) {
+      return
+    }
+    setIsTransferring(true)
+    const moved = await transferHousehold(
+      localRepository,
+      localSession.household.id,
+      repository,
+      session.household.id
+    )
+    if (moved === null) {
+      setIsTransferring(false)
+      window.alert('Some data could not be moved. The browser copy was kept.')
+      return
+    }
+    await clearLocalData()
+    window.location.reload()
+  }
+
+  if (repository.source === 'local') {
+    return (
+      <div className='text-sm text-gray-600'>
+        {session.household.name} · {session.email}
+      </div>
+    )
+  }
+
+  return (
+    <div className='flex flex-wrap items-center gap-2 text-sm text-gray-600'>
+      <span>
+        {session.household.name} · {session.email}
+      </span>
+      {localHouses > 0 && (
+        <button
+          onClick={handleTransfer}
+          disabled={isTransferring}
+          className='flex items-center gap-1 px-3 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50'>
+          <CloudUpload className='w-4 h-4' />
+          {isTransferring ? 'Moving…' : 'Move Browser Data Here'}
+        </button>
+      )}
+      <button
+        onClick={handleInvite}
+        className='flex items-center gap-1 px-3 py-1 bg-gray-200 rounded hover:bg-gray-300'>
+        <UserPlus className='w-4 h-4' />
+        Invite Partner
+      </button>
+      <button
+        onClick={signOut}
+        className='flex items-center gap-1 px-3 py-1 bg-gray-200 rounded hover:bg-gray-300'>
+        <LogOut className='w-4 h-4' />
+        Sign Out
+      </button>
+    </div>
+  )
+}
+
+export default HouseholdMenu
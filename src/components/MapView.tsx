@@ -0,0 +1,315 @@
+import { useRef, useState } from 'react'
+import { Crosshair, MapPin, Minus, PenLine, Plus } from 'lucide-react'
+import type { Destination } from '../types/commute'
+import type { LatLng, MapViewport } from '../types/geo'
+import type { House } from '../types/house'
+import {
+  fitBounds,
+  hasLocation,
+  maxZoom,
+  minZoom,
+  project,
+  scoreColor,
+  tileSize,
+  unproject
+} from '../utils/geo'
+import { tileProvider } from '../utils/mapProviders'
+
+interface MapViewProps {
+  houses: House[]
+  destinations: Destination[]
+  area: LatLng[] | null
+  isGeocoding: boolean
+  onAreaChange: (area: LatLng[] | null) => void
+  onSelect: (house: House) => void
+  onGeocodeMissing: () => void
+}
+
+const width = 800
+const height = 500
+const fallbackViewport: MapViewport = {
+  center: { lat: 39.7392, lng: -104.9903 },
+  zoom: 10
+}
+
+const MapView = ({
+  houses,
+  destinations,
+  area,
+  isGeocoding,
+  onAreaChange,
+  onSelect,
+  onGeocodeMissing
+}: MapViewProps) => {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null)
+  const located = houses.filter(hasLocation)
+  const pins = destinations.filter(hasLocation)
+  const fit = () =>
+    fitBounds([...located, ...pins], width, height) ?? fallbackViewport
+  const [viewport, setViewport] = useState<MapViewport>(fit)
+  const [drawing, setDrawing] = useState<LatLng[] | null>(null)
+
+  const centerPx = project(viewport.center, viewport.zoom)
+  const left = centerPx.x - width / 2
+  const top = centerPx.y - height / 2
+  const toScreen = (point: LatLng) => {
+    const p = project(point, viewport.zoom)
+    return { x: p.x - left, y: p.y - top }
+  }
+
+  const svgScale = () => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    return rect && rect.width > 0 ? width / rect.width : 1
+  }
+
+  const tileCount = Math.pow(2, viewport.zoom)
+  const tiles = []
+  for (
+    let tx = Math.floor(left / tileSize);
+    tx <= Math.floor((left + width) / tileSize);
+    tx++
+  ) {
+    for (
+      let ty = Math.floor(top / tileSize);
+      ty <= Math.floor((top + height) / tileSize);
+      ty++
+    ) {
+      if (ty < 0 || ty >= tileCount) continue
+      const x = ((tx % tileCount) + tileCount) % tileCount
+      tiles.push({
+        key: `${tx}:${ty}`,
+        url: tileProvider.tileUrl(x, ty, viewport.zoom),
+        x: tx * tileSize - left,
+        y: ty * tileSize - top
+      })
+    }
+  }
+
+  const zoomBy = (delta: number) =>
+    setViewport((prev) => ({
+      ...prev,
+      zoom: Math.max(minZoom, Math.min(maxZoom, prev.zoom + delta))
+    }))
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: false }
+  }
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const scale = svgScale()
+    const dx = (e.clientX - drag.x) * scale
+    const dy = (e.clientY - drag.y) * scale
+    if (Math.abs(dx) + Math.abs(dy) < 3 && !drag.moved) return
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: true }
+    setViewport((prev) => {
+      const c = project(prev.center, prev.zoom)
+      return {
+        ...prev,
+        center: unproject({ x: c.x - dx, y: c.y - dy }, prev.zoom)
+      }
+    })
+  }
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    const moved = dragRef.current?.moved
+    dragRef.current = null
+    if (moved || !drawing) return
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect) return
+    const scale = svgScale()
+    const point = unproject(
+      {
+        x: left + (e.clientX - rect.left) * scale,
+        y: top + (e.clientY - rect.top) * scale
+      },
+      viewport.zoom
+    )
+    setDrawing([...drawing, point])
+  }
+
+  const polygon = drawing ?? area
+  const missing = houses.length - located.length
+
+  return (
+    <div className='bg-white rounded-lg shadow-md p-4'>
+      <div className='flex flex-wrap items-center gap-2 mb-3'>
+        <button
+          onClick={() => zoomBy(1)}
+          className='p-2 bg-gray-200 rounded hover:bg-gray-300'>
+          <Plus className='w-4 h-4' />
+        </button>
+        <button
+          onClick={() => zoomBy(-1)}
+          className='p-2 bg-gray-200 rounded hover:bg-gray-300'>
+          <Minus className='w-4 h-4' />
+        </button>
+        <button
+          onClick={() => setViewport(fit())}
+          className='flex items-center gap-2 px-3 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300'>
+          <Crosshair className='w-4 h-4' />
+          Fit
+        </button>
+        {drawing ? (
+          <>
+            <button
+              onClick={() => {
+                onAreaChange(drawing)
+                setDrawing(null)
+              }}
+              disabled={drawing.length < 3}
+              className='px-3 py-2 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50'>
+              Finish Area ({drawing.length} points)
+            </button>
+            <button
+              onClick={() => setDrawing(null)}
+              className='px-3 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300'>
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setDrawing([])}
+            className='flex items-center gap-2 px-3 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300'>
+            <PenLine className='w-4 h-4' />
+            Draw Area
+          </button>
+        )}
+        {area && !drawing && (
+          <button
+            onClick={() => onAreaChange(null)}
+            className='px-3 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300'>
+            Clear Area
+          </button>
+        )}
+        {missing > 0 && (
+          <button
+            onClick={onGeocodeMissing}
+            disabled={isGeocoding}
+            className='flex items-center gap-2 px-3 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50'>
+            <MapPin className='w-4 h-4' />
+            {isGeocoding
+              ? 'Locating…'
+              : `Locate ${missing} ${missing === 1 ? 'house' : 'houses'}`}
+          </button>
+        )}
+      </div>
+      {drawing && (
+        <p className='text-sm text-gray-600 mb-2'>
+          Click the map to add corners of the area, then Finish.
+        </p>
+      )}
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        className={`w-full rounded bg-gray-100 select-none ${
+          drawing ? 'cursor-crosshair' : 'cursor-grab'
+        }`}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() => (dragRef.current = null)}>
+        {tiles.map((tile) =>
+          tile.url ? (
+            <image
+              key={tile.key}
+              href={tile.url}
+              x={tile.x}
+              y={tile.y}
+              width={tileSize}
+              height={tileSize}
+            />
+          ) : (
+            <rect
+              key={tile.key}
+              x={tile.x}
+              y={tile.y}
+              width={tileSize}
+              height={tileSize}
+              fill='none'
+              stroke='#d1d5db'
+            />
+          )
+        )}
+
+        {polygon && polygon.length > 0 && (
+          <polygon
+            points={polygon
+              .map(toScreen)
+              .map((p) => `${p.x},${p.y}`)
+              .join(' ')}
+            fill='rgba(79, 70, 229, 0.15)'
+            stroke='#4f46e5'
+            strokeWidth={2}
+            strokeDasharray={drawing ? '6 4' : undefined}
+          />
+        )}
+
+        {pins.map((destination) => {
+          const p = toScreen(destination)
+          return (
+            <g key={destination.id}>
+              <rect
+                x={p.x - 7}
+                y={p.y - 7}
+                width={14}
+                height={14}
+                transform={`rotate(45 ${p.x} ${p.y})`}
+                fill='#4f46e5'
+                stroke='white'
+                strokeWidth={2}
+              />
+              <text
+                x={p.x + 12}
+                y={p.y + 4}
+                fontSize={12}
+                fontWeight={600}
+                fill='#312e81'>
+                {destination.name}
+              </text>
+            </g>
+          )
+        })}
+
+        {located.map((house) => {
+          const p = toScreen(house)
+          return (
+            <circle
+              key={house.id}
+              cx={p.x}
+              cy={p.y}
+              r={8}
+              fill={scoreColor(house.calculated_score)}
+              stroke='white'
+              strokeWidth={2}
+              className='cursor-pointer'
+              onMouseUp={(e) => {
+                if (drawing || dragRef.current?.moved) return
+                e.stopPropagation()
+                dragRef.current = null
+                onSelect(house)
+              }}>
+              <title>
+                {house.address} — {house.calculated_score.toFixed(1)}
+              </title>
+            </circle>
+          )
+        })}
+
+        <text
+          x={width - 6}
+          y={height - 6}
+          textAnchor='end'
+          fontSize={10}
+          fill='#6b7280'>
+          {tileProvider.attribution}
+        </text>
+      </svg>
+    </div>
+  )
+}
+
+export default MapView
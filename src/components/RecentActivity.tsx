@@ -0,0 +1,45 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, Users } from 'lucide-react'
+import type { HouseActivity } from '../types/activity'
+import type { HouseholdMember } from '../types/household'
+import { describeActivity, timeAgo } from '../utils/activity'
+
+interface RecentActivityProps {
+  activity: HouseActivity[]
+  members: HouseholdMember[]
+}
+
+const RecentActivity = ({ activity, members }: RecentActivityProps) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  if (activity.length === 0) return null
+
+  return (
+    <div className='text-sm text-right'>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className='inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-800'>
+        <Users className='w-4 h-4' />
+        {describeActivity(activity[0], members)} · {timeAgo(activity[0].at)}
+        {isExpanded ? (
+          <ChevronUp className='w-4 h-4' />
+        ) : (
+          <ChevronDown className='w-4 h-4' />
+        )}
+      </button>
+
+      {isExpanded && (
+        <ul className='mt-2 space-y-1 text-left text-gray-700'>
+          {activity.map((a) => (
+            <li key={a.id}>
+              <span className='text-gray-500 mr-2'>{timeAgo(a.at)}</span>
+              {describeActivity(a, members)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default RecentActivity
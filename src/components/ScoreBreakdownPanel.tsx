@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, TrendingUp } from 'lucide-react'
+import type { ScoreBreakdown } from '../types/scoring'
+import { biggestGains } from '../utils/scoring'
+
+const formatRaw = (value: unknown) => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (value === null || value === undefined || value === '') return 'N/A'
+  if (typeof value === 'number') return value.toLocaleString()
+  return String(value)
+}
+
+interface ScoreBreakdownPanelProps {
+  breakdown: ScoreBreakdown
+  // Set when the shown score is a consensus, so the breakdown is labelled as
+  // one profile's.
+  profileName?: string
+}
+
+const ScoreBreakdownPanel = ({
+  breakdown,
+  profileName
+}: ScoreBreakdownPanelProps) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const gains = biggestGains(breakdown)
+
+  return (
+    <div className='mt-3 border-t border-gray-100 pt-3'>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className='flex items-center gap-1 text-sm font-semibold text-indigo-600 hover:text-indigo-800'>
+        {isExpanded ? (
+          <ChevronUp className='w-4 h-4' />
+        ) : (
+          <ChevronDown className='w-4 h-4' />
+        )}
+        {profileName ? `Why ${profileName}'s score?` : 'Why this score?'}
+      </button>
+
+      {isExpanded && (
+        <div className='mt-3 space-y-3'>
+          <div className='overflow-x-auto'>
+            <table className='w-full text-xs sm:text-sm'>
+              <thead>
+                <tr className='text-left text-gray-500 border-b border-gray-200'>
+                  <th className='py-1 pr-3 font-semibold'>Criterion</th>
+                  <th className='py-1 pr-3 font-semibold'>Value</th>
+                  <th className='py-1 pr-3 font-semibold'>Sub-score</th>
+                  <th className='py-1 pr-3 font-semibold'>Weight</th>
+                  <th className='py-1 pr-3 font-semibold'>Points</th>
+                  <th className='py-1 font-semibold'>Lost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {breakdown.contributions.map((c) => (
+                  <tr key={c.key} className='border-b border-gray-100'>
+                    <td className='py-1 pr-3 font-medium text-gray-700'>
+                      {c.label}
+                    </td>
+                    <td className='py-1 pr-3 text-gray-600'>
+                      {formatRaw(c.rawValue)}
+                    </td>
+                    <td className='py-1 pr-3'>
+                      <div className='flex items-center gap-2'>
+                        <div className='w-16 h-2 bg-gray-200 rounded'>
+                          <div
+                            className='h-2 bg-indigo-500 rounded'
+                            style={{ width: `${c.subScore}%` }}
+                          />
+                        </div>
+                        {c.subScore.toFixed(0)}
+                      </div>
+                    </td>
+                    <td className='py-1 pr-3 text-gray-600'>
+                      {Number(c.weight.toFixed(1))}
+                    </td>
+                    <td className='py-1 pr-3 text-gray-800'>
+                      {c.points.toFixed(1)} / {c.maxPoints.toFixed(1)}
+                    </td>
+                    <td
+                      className={`py-1 ${
+                        c.pointsLost > 0.05 ? 'text-red-600' : 'text-gray-400'
+                      }`}>
+                      -{c.pointsLost.toFixed(1)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className='p-3 bg-amber-50 rounded'>
+            <div className='flex items-center gap-1 text-sm font-semibold text-amber-800 mb-1'>
+              <TrendingUp className='w-4 h-4' />
+              Biggest gains possible
+            </div>
+            {gains.length > 0 ? (
+              <ul className='text-sm text-amber-900 space-y-1'>
+                {gains.map((c) => (
+                  <li key={c.key}>
+                    {c.label}: up to +{c.pointsLost.toFixed(1)} points
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className='text-sm text-amber-900'>
+                This house already maxes out every criterion.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ScoreBreakdownPanel
@@ -0,0 +1,248 @@
+import { useMemo, useState } from 'react'
+import { Shuffle, X } from 'lucide-react'
+import type { House } from '../types/house'
+import type { CriterionDefinition, Weights } from '../types/scoring'
+import type { MonteCarloResult } from '../types/sensitivity'
+import { weightLabel } from '../utils/scoring'
+import {
+  rankStability,
+  runMonteCarlo,
+  sweepWeights
+} from '../utils/sensitivity'
+
+interface SensitivityModalProps {
+  houses: House[]
+  weights: Weights
+  criteria: CriterionDefinition[]
+  weightKeys: string[]
+  onClose: () => void
+}
+
+const SensitivityModal = ({
+  houses,
+  weights,
+  criteria,
+  weightKeys,
+  onClose
+}: SensitivityModalProps) => {
+  const [sweepKey, setSweepKey] = useState(weightKeys[0] ?? '')
+  const [iterations, setIterations] = useState(1000)
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloResult[] | null>(null)
+
+  const sweeps = useMemo(
+    () => sweepWeights(houses, weights, criteria, weightKeys),
+    [houses, weights, criteria, weightKeys]
+  )
+  const stability = useMemo(
+    () => rankStability(houses, weights, criteria, sweeps),
+    [houses, weights, criteria, sweeps]
+  )
+  const housesById = useMemo(
+    () => new Map(houses.map((h) => [h.id, h])),
+    [houses]
+  )
+  const monteCarloById = new Map((monteCarlo ?? []).map((m) => [m.houseId, m]))
+  const selectedSweep = sweeps.find((s) => s.key === sweepKey)
+  const winner = stability[0]
+
+  const stabilityLabel = (sensitiveTo: string[]) => {
+    if (sensitiveTo.length === 0) {
+      return <span className='text-green-700 font-semibold'>Robust</span>
+    }
+    if (sensitiveTo.length === 1) {
+      return (
+        <span className='text-orange-600'>
+          Depends on {weightLabel(sensitiveTo[0], criteria)}
+        </span>
+      )
+    }
+    return (
+      <span className='text-gray-600'>
+        Sensitive to {sensitiveTo.length} weights
+      </span>
+    )
+  }
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      <div className='fixed inset-0 bg-black/75 z-40 backdrop-blur-sm' />
+      <div className='bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto z-50'>
+        <div className='sticky top-0 bg-white border-b border-gray-200 p-4 sm:p-6 flex justify-between items-center'>
+          <h3 className='text-lg sm:text-xl font-semibold text-gray-800'>
+            Weight Sensitivity
+          </h3>
+          <button
+            onClick={onClose}
+            className='text-gray-500 hover:text-gray-700 p-2 hover:bg-gray-100 rounded-full transition-colors'>
+            <X className='w-5 h-5' />
+          </button>
+        </div>
+
+        <div className='p-4 sm:p-6 space-y-6'>
+          {winner && (
+            <p
+              className={`p-3 rounded text-sm ${
+                winner.sensitiveTo.length === 0
+                  ? 'bg-green-50 text-green-800'
+                  : 'bg-orange-50 text-orange-800'
+              }`}>
+              {housesById.get(winner.houseId)?.address}{' '}
+              {winner.sensitiveTo.length === 0
+                ? 'stays #1 no matter how any single weight moves.'
+                : `can lose #1 when ${winner.sensitiveTo
+                    .map((key) => weightLabel(key, criteria))
+                    .join(', ')} changes.`}
+            </p>
+          )}
+
+          <div className='overflow-x-auto'>
+            <table className='w-full text-sm'>
+              <thead>
+                <tr className='text-left text-gray-500 border-b border-gray-200'>
+                  <th className='py-1 pr-3'>Rank</th>
+                  <th className='py-1 pr-3'>House</th>
+                  <th className='py-1 pr-3'>Rank Range</th>
+                  <th className='py-1 pr-3'>Stability</th>
+                  {monteCarlo && (
+                    <>
+                      <th className='py-1 pr-3'>#1</th>
+                      <th className='py-1'>Top 3</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {stability.map((s) => (
+                  <tr key={s.houseId} className='border-b border-gray-100'>
+                    <td className='py-1 pr-3 font-semibold'>{s.currentRank}</td>
+                    <td className='py-1 pr-3'>
+                      {housesById.get(s.houseId)?.address}
+                    </td>
+                    <td className='py-1 pr-3'>
+                      {s.bestRank === s.worstRank
+                        ? s.bestRank
+                        : `${s.bestRank}–${s.worstRank}`}
+                    </td>
+                    <td className='py-1 pr-3'>
+                      {stabilityLabel(s.sensitiveTo)}
+                    </td>
+                    {monteCarlo && (
+                      <>
+                        <td className='py-1 pr-3'>
+                          {(
+                            (monteCarloById.get(s.houseId)?.firstShare ?? 0) *
+                            100
+                          ).toFixed(0)}
+                          %
+                        </td>
+                        <td className='py-1'>
+                          {(
+                            (monteCarloById.get(s.houseId)?.topThreeShare ??
+                              0) * 100
+                          ).toFixed(0)}
+                          %
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className='flex flex-wrap items-center gap-2 p-3 bg-gray-50 rounded'>
+            <Shuffle className='w-4 h-4 text-gray-600' />
+            <span className='text-sm text-gray-700'>
+              Monte Carlo over random weight sets:
+            </span>
+            <input
+              type='number'
+              min='100'
+              step='100'
+              value={iterations}
+              onChange={(e) => setIterations(parseInt(e.target.value) || 100)}
+              className='w-24 px-2 py-1 border border-gray-300 rounded text-sm'
+            />
+            <button
+              onClick={() =>
+                setMonteCarlo(
+                  runMonteCarlo(houses, criteria, weightKeys, iterations)
+                )
+              }
+              className='px-3 py-1 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700'>
+              Run
+            </button>
+          </div>
+
+          <div>
+            <div className='flex flex-wrap items-center gap-2 mb-3'>
+              <span className='text-sm font-semibold text-gray-700'>
+                Sweep weight:
+              </span>
+              {weightKeys.map((key) => (
+                <button
+                  key={key}
+                  onClick={() => setSweepKey(key)}
+                  className={`px-3 py-1 text-sm rounded capitalize ${
+                    sweepKey === key
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-200'
+                  }`}>
+                  {weightLabel(key, criteria)}
+                </button>
+              ))}
+            </div>
+            {selectedSweep && (
+              <div className='overflow-x-auto'>
+                <table className='w-full text-sm'>
+                  <thead>
+                    <tr className='text-gray-500 border-b border-gray-200'>
+                      <th className='py-1 pr-3 text-left'>House</th>
+                      {selectedSweep.values.map((value) => (
+                        <th
+                          key={value}
+                          className={`py-1 px-2 ${
+                            value === weights[selectedSweep.key]
+                              ? 'text-indigo-700'
+                              : ''
+                          }`}>
+                          {value}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stability.map((s) => (
+                      <tr key={s.houseId} className='border-b border-gray-100'>
+                        <td className='py-1 pr-3'>
+                          {housesById.get(s.houseId)?.address}
+                        </td>
+                        {(selectedSweep.ranks[s.houseId] ?? []).map(
+                          (rank, i) => (
+                            <td
+                              key={i}
+                              className={`py-1 px-2 text-center ${
+                                rank === 1
+                                  ? 'bg-green-50 text-green-800 font-semibold'
+                                  : rank !== s.currentRank
+                                    ? 'text-orange-600'
+                                    : 'text-gray-600'
+                              }`}>
+                              {rank}
+                            </td>
+                          )
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SensitivityModal
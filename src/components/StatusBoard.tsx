@@ -0,0 +1,95 @@
+import { useState } from 'react'
+import type { House } from '../types/house'
+import type { HouseStatus } from '../types/status'
+import {
+  allowedTransitions,
+  canTransition,
+  houseStatuses,
+  statusColors,
+  statusLabels
+} from '../utils/status'
+
+interface StatusBoardProps {
+  houses: House[]
+  onMove: (house: House, status: HouseStatus) => void
+  onOpen: (house: House) => void
+}
+
+const StatusBoard = ({ houses, onMove, onOpen }: StatusBoardProps) => {
+  const [dragged, setDragged] = useState<House | null>(null)
+
+  return (
+    <div className='flex gap-3 overflow-x-auto pb-2'>
+      {houseStatuses.map((status) => {
+        const column = houses.filter((h) => h.status === status)
+        const canDrop =
+          dragged !== null &&
+          dragged.status !== status &&
+          canTransition(dragged.status, status)
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => canDrop && e.preventDefault()}
+            onDrop={() => {
+              if (dragged && canDrop) onMove(dragged, status)
+              setDragged(null)
+            }}
+            className={`flex-shrink-0 w-60 rounded-lg p-2 ${
+              canDrop
+                ? 'bg-indigo-50 ring-2 ring-indigo-300'
+                : dragged
+                  ? 'bg-gray-100 opacity-60'
+                  : 'bg-gray-100'
+            }`}>
+            <div className='flex items-center justify-between px-1 mb-2'>
+              <span
+                className={`px-2 py-1 text-xs rounded font-semibold ${statusColors[status]}`}>
+                {statusLabels[status]}
+              </span>
+              <span className='text-xs text-gray-500'>{column.length}</span>
+            </div>
+            <div className='space-y-2 min-h-12'>
+              {column.map((house) => (
+                <div
+                  key={house.id}
+                  draggable={allowedTransitions(house.status).length > 0}
+                  onDragStart={() => setDragged(house)}
+                  onDragEnd={() => setDragged(null)}
+                  className='bg-white rounded shadow-sm p-2 text-sm cursor-grab'>
+                  <button
+                    onClick={() => onOpen(house)}
+                    className='font-semibold text-indigo-600 hover:underline text-left'>
+                    {house.address}
+                  </button>
+                  <div className='flex justify-between text-xs text-gray-500 mt-1'>
+                    <span>${(house.price || 0).toLocaleString()}</span>
+                    <span className='font-semibold text-indigo-600'>
+                      {house.calculated_score.toFixed(1)}
+                    </span>
+                  </div>
+                  {allowedTransitions(house.status).length > 0 && (
+                    <select
+                      value=''
+                      onChange={(e) =>
+                        onMove(house, e.target.value as HouseStatus)
+                      }
+                      className='mt-2 w-full px-1 py-1 text-xs border border-gray-300 rounded'>
+                      <option value=''>Move to…</option>
+                      {allowedTransitions(house.status).map((next) => (
+                        <option key={next} value={next}>
+                          {statusLabels[next]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default StatusBoard
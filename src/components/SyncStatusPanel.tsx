@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+  Cloud,
+  CloudOff,
+  RefreshCw
+} from 'lucide-react'
+import type { SyncState } from '../types/sync'
+
+interface SyncStatusPanelProps {
+  sync: SyncState
+  onRetry: (writeId: string) => void
+  onDiscard: (writeId: string) => void
+}
+
+const SyncStatusPanel = ({
+  sync,
+  onRetry,
+  onDiscard
+}: SyncStatusPanelProps) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const pending = sync.pending.length
+
+  const summary =
+    sync.status === 'syncing'
+      ? pending > 0
+        ? `Syncing ${pending} change${pending === 1 ? '' : 's'}…`
+        : 'Syncing…'
+      : sync.status === 'offline'
+        ? pending > 0
+          ? `Offline · ${pending} change${pending === 1 ? '' : 's'} waiting`
+          : 'Offline · showing saved copy'
+        : sync.failed.length > 0
+          ? `${sync.failed.length} change${
+              sync.failed.length === 1 ? '' : 's'
+            } not saved`
+          : sync.status === 'error'
+            ? 'Could not reach the server'
+            : 'All changes saved'
+
+  return (
+    <div className='text-sm text-right'>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        disabled={sync.failed.length === 0}
+        title={
+          sync.last_synced_at
+            ? `Last synced ${new Date(sync.last_synced_at).toLocaleString()}`
+            : 'Not synced yet'
+        }
+        className={`inline-flex items-center gap-1 ${
+          sync.failed.length > 0
+            ? 'text-red-600 hover:text-red-800'
+            : sync.status === 'offline'
+              ? 'text-amber-600'
+              : 'text-gray-500'
+        }`}>
+        {sync.failed.length > 0 ? (
+          <AlertTriangle className='w-4 h-4' />
+        ) : sync.status === 'offline' ? (
+          <CloudOff className='w-4 h-4' />
+        ) : sync.status === 'syncing' ? (
+          <RefreshCw className='w-4 h-4 animate-spin' />
+        ) : (
+          <Cloud className='w-4 h-4' />
+        )}
+        {summary}
+        {sync.failed.length > 0 &&
+          (isExpanded ? (
+            <ChevronUp className='w-4 h-4' />
+          ) : (
+            <ChevronDown className='w-4 h-4' />
+          ))}
+      </button>
+
+      {isExpanded && sync.failed.length > 0 && (
+        <ul className='mt-2 space-y-2 text-left'>
+          {sync.failed.map((write) => (
+            <li
+              key={write.id}
+              className='p-3 bg-red-50 border border-red-200 rounded'>
+              <div className='font-semibold text-gray-800'>
+                {write.operation === 'insert'
+                  ? 'Add'
+                  : write.operation === 'update'
+                    ? 'Edit'
+                    : 'Delete'}{' '}
+                {(write.house ?? write.base)?.address || 'Untitled house'}
+              </div>
+              <div className='text-red-700'>
+                {write.message}
+                {write.conflicts.length > 0 &&
+                  ` (${write.conflicts.join(', ')})`}
+              </div>
+              <div className='flex gap-2 mt-2'>
+                <button
+                  onClick={() => onRetry(write.id)}
+                  className='px-3 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700'>
+                  {write.reason === 'conflict' ? 'Keep Mine' : 'Retry'}
+                </button>
+                <button
+                  onClick={() => onDiscard(write.id)}
+                  className='px-3 py-1 bg-gray-200 rounded hover:bg-gray-300'>
+                  {write.reason === 'conflict' ? 'Use Theirs' : 'Discard'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default SyncStatusPanel
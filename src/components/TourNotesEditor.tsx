@@ -0,0 +1,205 @@
+import { useState } from 'react'
+import { Plus, Upload, X } from 'lucide-react'
+import type { SubjectiveRating, TourNotes } from '../types/tour'
+import { emptyTourNotes, subjectiveRatings } from '../utils/tour'
+import { uploadTourPhoto, usePhotoUrls } from '../utils/tourPhotos'
+
+interface TourNotesEditorProps {
+  householdId: string
+  houseId: string
+  value: TourNotes | undefined
+  onChange: (tour: TourNotes) => void
+}
+
+const ListEditor = ({
+  label,
+  items,
+  onChange
+}: {
+  label: string
+  items: string[]
+  onChange: (items: string[]) => void
+}) => {
+  const [draft, setDraft] = useState('')
+
+  const add = () => {
+    if (!draft.trim()) return
+    onChange([...items, draft.trim()])
+    setDraft('')
+  }
+
+  return (
+    <div>
+      <span className='text-sm font-medium text-gray-700'>{label}</span>
+      <div className='flex gap-2 mt-1'>
+        <input
+          type='text'
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && add()}
+          placeholder={`Add ${label.toLowerCase()}`}
+          className='flex-1 px-3 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+        />
+        <button
+          onClick={add}
+          className='p-2 bg-gray-200 rounded hover:bg-gray-300'>
+          <Plus className='w-4 h-4' />
+        </button>
+      </div>
+      <ul className='mt-2 space-y-1'>
+        {items.map((item, i) => (
+          <li
+            key={i}
+            className='flex items-center justify-between text-sm text-gray-700'>
+            {item}
+            <button
+              onClick={() => onChange(items.filter((_, j) => j !== i))}
+              className='text-gray-400 hover:text-gray-600'>
+              <X className='w-3 h-3' />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+const TourNotesEditor = ({
+  householdId,
+  houseId,
+  value,
+  onChange
+}: TourNotesEditorProps) => {
+  const [isUploading, setIsUploading] = useState(false)
+  const [uploadError, setUploadError] = useState('')
+  const tour = { ...emptyTourNotes, ...value }
+  const photoUrl = usePhotoUrls(tour.photos)
+
+  const setRating = (rating: SubjectiveRating, score: number) => {
+    const ratings = { ...tour.ratings }
+    if (ratings[rating] === score) {
+      delete ratings[rating]
+    } else {
+      ratings[rating] = score
+    }
+    onChange({ ...tour, ratings })
+  }
+
+  const handlePhotos = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ''
+    if (files.length === 0) return
+    setIsUploading(true)
+    setUploadError('')
+    const uploaded = await Promise.all(
+      files.map((file) => uploadTourPhoto(householdId, houseId, file))
+    )
+    setIsUploading(false)
+    const failed = uploaded.filter((p) => p === null).length
+    if (failed > 0) {
+      setUploadError(
+        `${failed} photo${failed === 1 ? '' : 's'} could not be uploaded.`
+      )
+    }
+    onChange({
+      ...tour,
+      photos: [...tour.photos, ...uploaded.filter((p) => p !== null)]
+    })
+  }
+
+  // The stored photo is only deleted once the house is saved without it.
+  const handleRemovePhoto = (path: string) => {
+    if (!window.confirm('Delete this photo?')) return
+    onChange({ ...tour, photos: tour.photos.filter((p) => p.path !== path) })
+  }
+
+  return (
+    <div className='mt-6 space-y-4'>
+      <h4 className='font-semibold text-gray-800'>Tour Notes</h4>
+      <textarea
+        value={tour.notes}
+        onChange={(e) => onChange({ ...tour, notes: e.target.value })}
+        placeholder='What stood out during the showing?'
+        rows={3}
+        className='w-full px-3 py-2 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+      />
+
+      <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
+        <ListEditor
+          label='Pros'
+          items={tour.pros}
+          onChange={(pros) => onChange({ ...tour, pros })}
+        />
+        <ListEditor
+          label='Cons'
+          items={tour.cons}
+          onChange={(cons) => onChange({ ...tour, cons })}
+        />
+      </div>
+
+      <div className='grid grid-cols-1 sm:grid-cols-2 gap-3'>
+        {(Object.keys(subjectiveRatings) as SubjectiveRating[]).map(
+          (rating) => (
+            <div key={rating} className='flex items-center justify-between'>
+              <span className='text-sm text-gray-700'>
+                {subjectiveRatings[rating]}
+              </span>
+              <div className='flex gap-1'>
+                {[1, 2, 3, 4, 5].map((score) => (
+                  <button
+                    key={score}
+                    onClick={() => setRating(rating, score)}
+                    className={`w-7 h-7 text-xs rounded ${
+                      (tour.ratings[rating] ?? 0) >= score
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-gray-200'
+                    }`}>
+                    {score}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )
+        )}
+      </div>
+
+      <div>
+        <label className='inline-flex items-center gap-2 px-3 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300 cursor-pointer'>
+          <Upload className='w-4 h-4' />
+          {isUploading ? 'Uploading…' : 'Add Photos'}
+          <input
+            type='file'
+            accept='image/*'
+            multiple
+            disabled={isUploading}
+            onChange={handlePhotos}
+            className='hidden'
+          />
+        </label>
+        {uploadError && (
+          <p className='mt-2 text-sm text-red-600'>{uploadError}</p>
+        )}
+        {tour.photos.length > 0 && (
+          <div className='flex flex-wrap gap-2 mt-3'>
+            {tour.photos.map((photo) => (
+              <div key={photo.path} className='relative w-24 h-24'>
+                <img
+                  src={photoUrl(photo)}
+                  alt='Tour photo'
+                  className='w-full h-full object-cover rounded'
+                />
+                <button
+                  onClick={() => handleRemovePhoto(photo.path)}
+                  className='absolute top-1 right-1 p-1 bg-white/80 rounded-full text-gray-700 hover:bg-white'>
+                  <X className='w-3 h-3' />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default TourNotesEditor
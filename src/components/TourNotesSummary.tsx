@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronUp } from 'lucide-react'
+import type { SubjectiveRating, TourNotes, TourPhoto } from '../types/tour'
+import { subjectiveRatings } from '../utils/tour'
+import { usePhotoUrls } from '../utils/tourPhotos'
+
+// Only mounted when expanded, so collapsed cards don't fetch photo links.
+const PhotoGrid = ({ photos }: { photos: TourPhoto[] }) => {
+  const photoUrl = usePhotoUrls(photos)
+  return (
+    <div className='flex flex-wrap gap-2'>
+      {photos.map((photo) => (
+        <a
+          key={photo.path}
+          href={photoUrl(photo)}
+          target='_blank'
+          rel='noopener noreferrer'>
+          <img
+            src={photoUrl(photo)}
+            alt='Tour photo'
+            className='w-24 h-24 object-cover rounded'
+          />
+        </a>
+      ))}
+    </div>
+  )
+}
+
+const TourNotesSummary = ({ tour }: { tour: TourNotes }) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const rated = (Object.keys(subjectiveRatings) as SubjectiveRating[]).filter(
+    (rating) => tour.ratings[rating] !== undefined
+  )
+
+  return (
+    <div className='mt-3 border-t border-gray-100 pt-3'>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className='flex items-center gap-1 text-sm font-semibold text-indigo-600 hover:text-indigo-800'>
+        {isExpanded ? (
+          <ChevronUp className='w-4 h-4' />
+        ) : (
+          <ChevronDown className='w-4 h-4' />
+        )}
+        Tour Notes
+      </button>
+
+      {isExpanded && (
+        <div className='mt-3 space-y-3 text-sm'>
+          {rated.length > 0 && (
+            <div className='flex flex-wrap gap-2'>
+              {rated.map((rating) => (
+                <span
+                  key={rating}
+                  className='px-2 py-1 bg-indigo-50 text-indigo-700 text-xs rounded'>
+                  {subjectiveRatings[rating]}: {tour.ratings[rating]}/5
+                </span>
+              ))}
+            </div>
+          )}
+          {tour.notes && (
+            <p className='text-gray-700 whitespace-pre-line'>{tour.notes}</p>
+          )}
+          {(tour.pros.length > 0 || tour.cons.length > 0) && (
+            <div className='grid grid-cols-1 sm:grid-cols-2 gap-3'>
+              <ul className='space-y-1 text-green-700'>
+                {tour.pros.map((pro, i) => (
+                  <li key={i}>+ {pro}</li>
+                ))}
+              </ul>
+              <ul className='space-y-1 text-red-700'>
+                {tour.cons.map((con, i) => (
+                  <li key={i}>− {con}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {tour.photos.length > 0 && <PhotoGrid photos={tour.photos} />}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TourNotesSummary
@@ -0,0 +1,85 @@
+import { RotateCcw, Trash2, X } from 'lucide-react'
+import type { House } from '../types/house'
+
+interface TrashModalProps {
+  houses: House[]
+  onRestore: (house: House) => void
+  onPurge: (house: House) => void
+  onEmpty: () => void
+  onClose: () => void
+}
+
+const TrashModal = ({
+  houses,
+  onRestore,
+  onPurge,
+  onEmpty,
+  onClose
+}: TrashModalProps) => (
+  <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+    <div className='fixed inset-0 bg-black/75 z-40 backdrop-blur-sm' />
+    <div className='bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto z-50'>
+      <div className='sticky top-0 bg-white border-b border-gray-200 p-4 sm:p-6 flex justify-between items-center'>
+        <h3 className='text-lg sm:text-xl font-semibold text-gray-800'>
+          Trash ({houses.length})
+        </h3>
+        <div className='flex items-center gap-2'>
+          {houses.length > 0 && (
+            <button
+              onClick={onEmpty}
+              className='px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700'>
+              Empty Trash
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className='text-gray-500 hover:text-gray-700 p-2 hover:bg-gray-100 rounded-full transition-colors'>
+            <X className='w-5 h-5' />
+          </button>
+        </div>
+      </div>
+
+      <div className='p-4 sm:p-6'>
+        {houses.length === 0 ? (
+          <p className='text-gray-500'>
+            Deleted houses show up here until you remove them for good.
+          </p>
+        ) : (
+          <ul className='divide-y divide-gray-100'>
+            {houses.map((house) => (
+              <li
+                key={house.id}
+                className='flex items-center justify-between gap-4 py-3'>
+                <div>
+                  <div className='font-semibold text-gray-800'>
+                    {house.address || 'Untitled house'}
+                  </div>
+                  <div className='text-sm text-gray-500'>
+                    {house.city && `${house.city} • `}Deleted{' '}
+                    {new Date(house.deleted_at!).toLocaleString()}
+                  </div>
+                </div>
+                <div className='flex gap-2'>
+                  <button
+                    onClick={() => onRestore(house)}
+                    className='flex items-center gap-1 px-3 py-1 text-sm bg-indigo-50 text-indigo-700 rounded hover:bg-indigo-100'>
+                    <RotateCcw className='w-4 h-4' />
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => onPurge(house)}
+                    className='flex items-center gap-1 px-3 py-1 text-sm bg-red-50 text-red-700 rounded hover:bg-red-100'>
+                    <Trash2 className='w-4 h-4' />
+                    Delete Forever
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  </div>
+)
+
+export default TrashModal
@@ -0,0 +1,24 @@
+import { X } from 'lucide-react'
+import type { UndoEntry } from '../types/undo'
+
+interface UndoToastProps {
+  entry: UndoEntry
+  onUndo: () => void
+  onDismiss: () => void
+}
+
+const UndoToast = ({ entry, onUndo, onDismiss }: UndoToastProps) => (
+  <div className='fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 px-4 py-3 bg-gray-900 text-white rounded-lg shadow-xl'>
+    <span className='text-sm'>{entry.label}</span>
+    <button
+      onClick={onUndo}
+      className='text-sm font-semibold text-indigo-300 hover:text-indigo-200'>
+      Undo
+    </button>
+    <button onClick={onDismiss} className='text-gray-400 hover:text-gray-200'>
+      <X className='w-4 h-4' />
+    </button>
+  </div>
+)
+
+export default UndoToast
@@ -0,0 +1,32 @@
+interface ValidatedInputProps {
+  type: 'text' | 'number'
+  placeholder: string
+  value: string
+  error?: string
+  onChange: (value: string) => void
+}
+
+const ValidatedInput = ({
+  type,
+  placeholder,
+  value,
+  error,
+  onChange
+}: ValidatedInputProps) => (
+  <div className='flex flex-col'>
+    <input
+      type={type}
+      step={type === 'number' ? 'any' : undefined}
+      placeholder={placeholder}
+      value={value}
+      aria-invalid={Boolean(error)}
+      onChange={(e) => onChange(e.target.value)}
+      className={`px-3 py-2 border rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent ${
+        error ? 'border-red-400' : 'border-gray-300'
+      }`}
+    />
+    {error && <p className='mt-1 text-xs text-red-600'>{error}</p>}
+  </div>
+)
+
+export default ValidatedInput
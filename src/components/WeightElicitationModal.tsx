@@ -0,0 +1,282 @@
+import { useMemo, useState } from 'react'
+import { X } from 'lucide-react'
+import type { House } from '../types/house'
+import type { CriterionDefinition, Weights } from '../types/scoring'
+import type {
+  CriteriaJudgment,
+  ElicitationMode,
+  HouseChoice
+} from '../types/elicitation'
+import {
+  criteriaPairs,
+  fitChoiceWeights,
+  fitCriteriaWeights,
+  isConsistent,
+  judgmentScale,
+  nextHousePair
+} from '../utils/elicitation'
+import { weightLabel } from '../utils/scoring'
+
+interface WeightElicitationModalProps {
+  houses: House[]
+  weights: Weights
+  criteria: CriterionDefinition[]
+  weightKeys: string[]
+  onApply: (weights: Weights) => void
+  onClose: () => void
+}
+
+const HouseOption = ({
+  house,
+  onChoose
+}: {
+  house: House
+  onChoose: () => void
+}) => (
+  <button
+    onClick={onChoose}
+    className='flex-1 text-left p-4 border border-gray-200 rounded-lg hover:border-indigo-500 hover:bg-indigo-50 transition-colors'>
+    <div className='font-bold text-indigo-600'>{house.address}</div>
+    <div className='text-sm text-gray-500 mb-2'>{house.city}</div>
+    <div className='text-sm text-gray-700 space-y-1'>
+      <div>${(house.price || 0).toLocaleString()}</div>
+      <div>
+        {house.bedrooms} bd · {house.bathrooms} ba ·{' '}
+        {(house.size || 0).toLocaleString()} sqft
+      </div>
+      <div>
+        Built {house.year_built} · {house.garage_spaces} garage · HOA $
+        {house.hoa_fee}
+      </div>
+      <div>
+        {[
+          house.walk_in_closet && 'Walk-in closet',
+          house.kitchen_island && 'Kitchen island',
+          house.yard_maintenance && 'Yard maintenance'
+        ]
+          .filter(Boolean)
+          .join(' · ') || 'No extras'}
+      </div>
+    </div>
+  </button>
+)
+
+const WeightElicitationModal = ({
+  houses,
+  weights,
+  criteria,
+  weightKeys,
+  onApply,
+  onClose
+}: WeightElicitationModalProps) => {
+  const [mode, setMode] = useState<ElicitationMode>('criteria')
+  const [judgments, setJudgments] = useState<CriteriaJudgment[]>([])
+  const [skipped, setSkipped] = useState<string[]>([])
+  const [choices, setChoices] = useState<HouseChoice[]>([])
+  const [housePair, setHousePair] = useState(() => nextHousePair(houses, []))
+
+  const pairs = useMemo(() => criteriaPairs(weightKeys), [weightKeys])
+  const criteriaPair = pairs.find(
+    ({ a, b }) =>
+      !skipped.includes(`${a}|${b}`) &&
+      !judgments.some((j) => j.a === a && j.b === b)
+  )
+
+  const fit = useMemo(
+    () =>
+      mode === 'criteria'
+        ? fitCriteriaWeights(weightKeys, judgments)
+        : fitChoiceWeights(houses, choices, criteria, weightKeys, weights),
+    [mode, weightKeys, judgments, houses, choices, criteria, weights]
+  )
+  const answered = mode === 'criteria' ? judgments.length : choices.length
+
+  const judge = (ratio: number) => {
+    if (!criteriaPair) return
+    setJudgments((prev) => [...prev, { ...criteriaPair, ratio }])
+  }
+
+  const choose = (winner: House, loser: House) => {
+    const next = [...choices, { winnerId: winner.id, loserId: loser.id }]
+    setChoices(next)
+    setHousePair(nextHousePair(houses, next))
+  }
+
+  const reset = () => {
+    setJudgments([])
+    setSkipped([])
+    setChoices([])
+    setHousePair(nextHousePair(houses, []))
+  }
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      <div className='fixed inset-0 bg-black/75 z-40 backdrop-blur-sm' />
+      <div className='bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto z-50'>
+        <div className='sticky top-0 bg-white border-b border-gray-200 p-4 sm:p-6 flex justify-between items-center'>
+          <h3 className='text-lg sm:text-xl font-semibold text-gray-800'>
+            Learn Weights from Choices
+          </h3>
+          <button
+            onClick={onClose}
+            className='text-gray-500 hover:text-gray-700 p-2 hover:bg-gray-100 rounded-full transition-colors'>
+            <X className='w-5 h-5' />
+          </button>
+        </div>
+
+        <div className='p-4 sm:p-6 space-y-6'>
+          <div className='flex flex-wrap gap-2'>
+            <button
+              onClick={() => setMode('criteria')}
+              className={`px-4 py-2 rounded ${
+                mode === 'criteria' ? 'bg-indigo-600 text-white' : 'bg-gray-200'
+              }`}>
+              Compare Criteria
+            </button>
+            <button
+              onClick={() => setMode('houses')}
+              disabled={houses.length < 2}
+              className={`px-4 py-2 rounded disabled:opacity-50 ${
+                mode === 'houses' ? 'bg-indigo-600 text-white' : 'bg-gray-200'
+              }`}>
+              Compare Houses
+            </button>
+            <button
+              onClick={reset}
+              className='px-4 py-2 rounded bg-gray-200 hover:bg-gray-300'>
+              Start Over
+            </button>
+          </div>
+
+          {mode === 'criteria' &&
+            (criteriaPair ? (
+              <div className='p-4 bg-gray-50 rounded'>
+                <p className='text-sm text-gray-600 mb-3'>
+                  Which matters more to you? ({judgments.length} of{' '}
+                  {pairs.length} answered)
+                </p>
+                <div className='flex items-center justify-between mb-3 font-semibold text-gray-800 capitalize'>
+                  <span>{weightLabel(criteriaPair.a, criteria)}</span>
+                  <span className='text-gray-400 text-sm'>vs</span>
+                  <span>{weightLabel(criteriaPair.b, criteria)}</span>
+                </div>
+                <div className='flex flex-wrap gap-2 justify-center'>
+                  {judgmentScale.map(({ ratio, label }) => (
+                    <button
+                      key={ratio}
+                      onClick={() => judge(ratio)}
+                      className={`px-3 py-2 text-sm rounded ${
+                        ratio === 1
+                          ? 'bg-gray-200 hover:bg-gray-300'
+                          : 'bg-indigo-100 text-indigo-800 hover:bg-indigo-200'
+                      }`}>
+                      {ratio > 1 && '← '}
+                      {label}
+                      {ratio < 1 && ' →'}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() =>
+                      setSkipped((prev) => [
+                        ...prev,
+                        `${criteriaPair.a}|${criteriaPair.b}`
+                      ])
+                    }
+                    className='px-3 py-2 text-sm rounded text-gray-500 hover:bg-gray-100'>
+                    Skip
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p className='p-3 bg-gray-50 rounded text-sm text-gray-600'>
+                All criteria pairs answered.
+              </p>
+            ))}
+
+          {mode === 'houses' &&
+            (housePair ? (
+              <div>
+                <p className='text-sm text-gray-600 mb-3'>
+                  Which house would you rather buy? ({choices.length} answered)
+                </p>
+                <div className='flex flex-col sm:flex-row gap-4'>
+                  <HouseOption
+                    house={housePair[0]}
+                    onChoose={() => choose(housePair[0], housePair[1])}
+                  />
+                  <HouseOption
+                    house={housePair[1]}
+                    onChoose={() => choose(housePair[1], housePair[0])}
+                  />
+                </div>
+              </div>
+            ) : (
+              <p className='p-3 bg-gray-50 rounded text-sm text-gray-600'>
+                Every pair of houses has been compared.
+              </p>
+            ))}
+
+          {answered > 0 && (
+            <div>
+              <div className='flex flex-wrap items-center gap-4 mb-3 text-sm'>
+                <span className='text-gray-700'>
+                  Fitted weights reproduce{' '}
+                  <span className='font-semibold'>
+                    {(fit.agreement * 100).toFixed(0)}%
+                  </span>{' '}
+                  of your {answered} answers
+                </span>
+                {fit.consistencyRatio !== null && (
+                  <span
+                    className={
+                      isConsistent(fit) ? 'text-green-700' : 'text-orange-600'
+                    }>
+                    Consistency ratio {fit.consistencyRatio.toFixed(2)}
+                    {!isConsistent(fit) && ' — some answers contradict'}
+                  </span>
+                )}
+              </div>
+              <table className='w-full text-sm mb-4'>
+                <thead>
+                  <tr className='text-left text-gray-500 border-b border-gray-200'>
+                    <th className='py-1 pr-3'>Weight</th>
+                    <th className='py-1 pr-3'>Current</th>
+                    <th className='py-1'>Fitted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {weightKeys.map((key) => (
+                    <tr key={key} className='border-b border-gray-100'>
+                      <td className='py-1 pr-3 capitalize'>
+                        {weightLabel(key, criteria)}
+                      </td>
+                      <td className='py-1 pr-3'>{weights[key]}</td>
+                      <td
+                        className={`py-1 ${
+                          fit.weights[key] !== weights[key]
+                            ? 'font-semibold text-indigo-700'
+                            : ''
+                        }`}>
+                        {fit.weights[key]}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                onClick={() => {
+                  onApply(fit.weights)
+                  onClose()
+                }}
+                className='px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700'>
+                Apply Weights
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default WeightElicitationModal
@@ -0,0 +1,101 @@
+import { Copy, Edit2, Plus, Trash2 } from 'lucide-react'
+import type { WeightProfile } from '../types/weightProfile'
+import { weightPresets } from '../utils/weightProfiles'
+
+interface WeightProfileSelectorProps {
+  profiles: WeightProfile[]
+  activeProfileId: string | null
+  onSelect: (id: string) => void
+  onCreate: (name: string, presetName: string) => void
+  onRename: (id: string, name: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+const WeightProfileSelector = ({
+  profiles,
+  activeProfileId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete
+}: WeightProfileSelectorProps) => {
+  const activeProfile = profiles.find((p) => p.id === activeProfileId)
+
+  const handleCreate = (presetName: string) => {
+    const name = window.prompt('Profile name', presetName)
+    if (name && name.trim() !== '') onCreate(name.trim(), presetName)
+  }
+
+  const handleRename = () => {
+    if (!activeProfile) return
+    const name = window.prompt('Rename profile', activeProfile.name)
+    if (name && name.trim() !== '') onRename(activeProfile.id, name.trim())
+  }
+
+  const handleDelete = () => {
+    if (!activeProfile) return
+    if (
+      window.confirm(`Are you sure you want to delete "${activeProfile.name}"?`)
+    ) {
+      onDelete(activeProfile.id)
+    }
+  }
+
+  return (
+    <div className='mb-6'>
+      <h3 className='text-sm font-semibold text-gray-700 mb-3'>
+        Weight Profile
+      </h3>
+      <div className='flex flex-wrap items-center gap-2'>
+        <select
+          value={activeProfileId ?? ''}
+          onChange={(e) => onSelect(e.target.value)}
+          className='px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent'>
+          {profiles.length === 0 && <option value=''>No profiles</option>}
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleRename}
+          disabled={!activeProfile}
+          title='Rename profile'
+          className='p-2 text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50'>
+          <Edit2 className='w-4 h-4' />
+        </button>
+        <button
+          onClick={() => activeProfile && onDuplicate(activeProfile.id)}
+          disabled={!activeProfile}
+          title='Duplicate profile'
+          className='p-2 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50'>
+          <Copy className='w-4 h-4' />
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={!activeProfile}
+          title='Delete profile'
+          className='p-2 text-red-600 hover:bg-red-50 rounded disabled:opacity-50'>
+          <Trash2 className='w-4 h-4' />
+        </button>
+        <div className='flex items-center gap-2 ml-auto'>
+          <Plus className='w-4 h-4 text-gray-500' />
+          <span className='text-sm text-gray-600'>New from preset:</span>
+          {weightPresets.map((preset) => (
+            <button
+              key={preset.name}
+              onClick={() => handleCreate(preset.name)}
+              className='px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300'>
+              {preset.name}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default WeightProfileSelector
@@ -1,9 +1,16 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import Dashboard from './Dashboard.tsx'
+import AuthGate from './components/AuthGate.tsx'
+import { repository } from './utils/repository'
+import { localSession } from './utils/localRepository'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <Dashboard />
+    {repository.source === 'local' ? (
+      <Dashboard session={localSession} />
+    ) : (
+      <AuthGate>{(session) => <Dashboard session={session} />}</AuthGate>
+    )}
   </StrictMode>
 )
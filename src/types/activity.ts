@@ -0,0 +1,12 @@
+export type ActivityKind = 'added' | 'changed' | 'removed' | 'restored'
+
+export interface HouseActivity {
+  id: string
+  house_id: string
+  address: string
+  kind: ActivityKind
+  fields: string[]
+  // null when the backend can't tell who made the change.
+  user_id: string | null
+  at: string
+}
@@ -0,0 +1,13 @@
+import type { Destination } from './commute'
+import type { CustomAttribute } from './customAttribute'
+import type { House } from './house'
+import type { WeightProfile } from './weightProfile'
+
+export interface Backup {
+  version: number
+  exported_at: string
+  houses: House[]
+  weight_profiles: WeightProfile[]
+  destinations: Destination[]
+  custom_attributes: CustomAttribute[]
+}
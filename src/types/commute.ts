@@ -0,0 +1,15 @@
+export interface Destination {
+  id: string
+  name: string
+  weight: number
+  max_minutes: number
+  position: number
+  lat: number | null
+  lng: number | null
+}
+
+export interface Commute {
+  destination_id: string
+  minutes: number | null
+  miles: number | null
+}
@@ -0,0 +1,8 @@
+export interface ComparisonRow {
+  key: string
+  label: string
+  section: 'score' | 'details' | 'sub-scores'
+  values: string[]
+  best: number[]
+  worst: number[]
+}
@@ -0,0 +1,14 @@
+export type Aggregation = 'average' | 'minimum' | 'borda'
+
+export interface RaterScore {
+  raterId: string
+  name: string
+  score: number
+}
+
+export interface ConsensusScore {
+  houseId: string
+  raterScores: RaterScore[]
+  score: number
+  spread: number
+}
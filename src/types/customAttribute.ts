@@ -0,0 +1,21 @@
+import type { ScoreDirection } from './scoring'
+
+export type CustomAttributeType = 'boolean' | 'number' | 'enum' | 'text'
+
+export type CustomValue = string | number | boolean | null
+
+// Scoring settings live alongside the definition: booleans use `prefer`,
+// numbers score linearly between `min` and `max`, and enum options map to a
+// 0–100 score. Text attributes are informational only.
+export interface CustomAttribute {
+  id: string
+  name: string
+  type: CustomAttributeType
+  options: string[]
+  option_scores: Record<string, number>
+  min: number
+  max: number
+  direction: ScoreDirection
+  prefer: boolean
+  position: number
+}
@@ -0,0 +1,20 @@
+export type ElicitationMode = 'criteria' | 'houses'
+
+// ratio is Saaty-style importance of `a` over `b`: 1 equal, 3 moderately,
+// 5 strongly more important, and the reciprocals when `b` wins.
+export interface CriteriaJudgment {
+  a: string
+  b: string
+  ratio: number
+}
+
+export interface HouseChoice {
+  winnerId: string
+  loserId: string
+}
+
+export interface ElicitationFit {
+  weights: Record<string, number>
+  agreement: number
+  consistencyRatio: number | null
+}
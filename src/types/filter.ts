@@ -0,0 +1,38 @@
+import type { HouseStatus } from './status'
+import type { LatLng } from './geo'
+
+export type RangeField =
+  'price' | 'bedrooms' | 'bathrooms' | 'size' | 'year_built' | 'hoa_fee'
+
+export interface NumericRange {
+  min: number | null
+  max: number | null
+}
+
+export type MustHave =
+  'walk_in_closet' | 'kitchen_island' | 'low_maintenance_yard'
+
+export interface HouseFilter {
+  ranges: Partial<Record<RangeField, NumericRange>>
+  mustHaves: MustHave[]
+  minGarageSpaces: number | null
+  statuses: HouseStatus[]
+  hideClosed: boolean
+  cities: string[]
+  styles: string[]
+  hardBudget: boolean
+  hardMustHaves: boolean
+  area: LatLng[] | null
+}
+
+export interface SavedFilter {
+  id: string
+  name: string
+  filter: HouseFilter
+}
+
+export interface FilterResult {
+  excluded: boolean
+  overBudget: boolean
+  missing: string[]
+}
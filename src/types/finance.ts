@@ -0,0 +1,20 @@
+export interface FinanceSettings {
+  down_payment_percent: number
+  interest_rate: number
+  term_years: number
+  property_tax_rate: number
+  insurance_per_year: number
+  pmi_rate: number
+  min_monthly_cost: number
+  max_monthly_cost: number
+  score_by_monthly_cost: boolean
+}
+
+export interface MonthlyCost {
+  principalAndInterest: number
+  propertyTax: number
+  insurance: number
+  pmi: number
+  hoa: number
+  total: number
+}
@@ -0,0 +1,23 @@
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+export interface Geocoder {
+  name: string
+  // Minimum spacing between requests, for providers with usage limits.
+  minIntervalMs: number
+  geocode: (query: string) => Promise<LatLng | null>
+}
+
+export interface TileProvider {
+  name: string
+  attribution: string
+  // null means the provider has no imagery and the map draws a plain grid.
+  tileUrl: (x: number, y: number, zoom: number) => string | null
+}
+
+export interface MapViewport {
+  center: LatLng
+  zoom: number
+}
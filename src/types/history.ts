@@ -0,0 +1,27 @@
+import type { House } from './house'
+
+export type TrackedField = Extract<
+  keyof House,
+  'price' | 'status' | 'hoa_fee' | 'bedrooms' | 'bathrooms' | 'size'
+>
+
+export type HistoryValue = string | number | boolean | null
+
+// An 'added' event records the house's price when it joined the list, so price
+// changes can be measured from it; 'changed' events record one field edit.
+export interface HouseEvent {
+  id: string
+  house_id: string
+  event: 'added' | 'changed'
+  field: TrackedField | null
+  old_value: HistoryValue
+  new_value: HistoryValue
+  recorded_at: string
+}
+
+export interface HistorySummary {
+  addedAt: string | null
+  daysOnList: number | null
+  priceChangePercent: number | null
+  events: HouseEvent[]
+}
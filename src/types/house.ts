@@ -1,3 +1,8 @@
+import type { Commute } from './commute'
+import type { HouseStatus } from './status'
+import type { TourNotes } from './tour'
+import type { CustomValue } from './customAttribute'
+
 export interface House {
   id: string
   address: string
@@ -13,8 +18,19 @@ export interface House {
   kitchen_island: boolean
   yard_maintenance: boolean
   hoa_fee: number
-  distance: string
+  commutes: Commute[]
+  distance?: string
   calculated_score: number
-  sold: boolean
+  status: HouseStatus
+  sold?: boolean
   thumbnail_url?: string
+  lat: number | null
+  lng: number | null
+  tour_notes: TourNotes
+  custom: Record<string, CustomValue>
+  // Set when the house is moved to the trash.
+  deleted_at: string | null
+  // Stamped by the database on every write; absent in local mode.
+  updated_by?: string | null
+  updated_at?: string
 }
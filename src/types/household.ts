@@ -0,0 +1,25 @@
+export interface Household {
+  id: string
+  name: string
+}
+
+// 'error' means the lookup failed, not that the user has no household.
+export type HouseholdLookup =
+  { kind: 'found'; household: Household } | { kind: 'none' } | { kind: 'error' }
+
+export interface HouseholdInvite {
+  token: string
+  household_id: string
+  expires_at: string
+}
+
+export interface HouseholdSession {
+  userId: string
+  email: string
+  household: Household
+}
+
+export interface HouseholdMember {
+  user_id: string
+  email: string | null
+}
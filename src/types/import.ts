@@ -0,0 +1,45 @@
+import type { House } from './house'
+import type { CustomAttribute } from './customAttribute'
+
+export type ImportFieldType =
+  'string' | 'number' | 'boolean' | 'status' | 'commute' | 'custom'
+
+export interface ImportField {
+  field: keyof House
+  label: string
+  type: ImportFieldType
+  aliases: string[]
+  destinationId?: string
+  attribute?: CustomAttribute
+}
+
+export type ColumnMapping = Record<string, string>
+
+export type ImportAction = 'insert' | 'update' | 'unchanged' | 'skip'
+
+export interface FieldChange {
+  field: keyof House
+  label: string
+  from: House[keyof House]
+  to: House[keyof House]
+}
+
+export interface ImportRow {
+  line: number
+  house: House
+  errors: string[]
+  action: ImportAction
+  existing?: House
+  changes: FieldChange[]
+}
+
+// 'pending' rows are saved on this device and sync once back online.
+export type ImportStatus =
+  'inserted' | 'updated' | 'pending' | 'unchanged' | 'failed' | 'skipped'
+
+export interface ImportResult {
+  line: number
+  address: string
+  status: ImportStatus
+  message?: string
+}
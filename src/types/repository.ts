@@ -0,0 +1,75 @@
+import type { House } from './house'
+import type { HouseClient, QueryError } from './sync'
+
+export type DataSource = 'supabase' | 'local'
+
+export type RepositoryTable =
+  | 'weight_profiles'
+  | 'saved_filters'
+  | 'destinations'
+  | 'custom_attributes'
+  | 'house_history'
+
+export interface RepositoryOrder {
+  column: string
+  ascending: boolean
+}
+
+export interface RepositoryResult<T> {
+  data: T[] | null
+  error: QueryError | null
+}
+
+export interface PhotoUpload {
+  url: string | null
+  error: QueryError | null
+}
+
+export interface PhotoUrls {
+  // Keyed by path; photos missing here keep the url saved with them.
+  urls: Record<string, string>
+  error: QueryError | null
+}
+
+export interface RemoteHouseChange {
+  house_id: string
+  // null when the house was deleted.
+  house: House | null
+  // null when the backend can't tell, as for deletes.
+  changed_by: string | null
+}
+
+// Everything a household stores, whichever backend holds it.
+export interface HouseRepository {
+  source: DataSource
+  // Local storage never goes offline, so writes skip the offline queue.
+  isOnline: () => boolean
+  houses: HouseClient
+  list: <T>(
+    table: RepositoryTable,
+    householdId: string,
+    order: RepositoryOrder
+  ) => Promise<RepositoryResult<T>>
+  // Inserts rows, replacing any with the same id.
+  save: <T extends { id: string }>(
+    table: RepositoryTable,
+    householdId: string,
+    rows: T[]
+  ) => Promise<{ error: QueryError | null }>
+  remove: (
+    table: RepositoryTable,
+    householdId: string,
+    id: string
+  ) => Promise<{ error: QueryError | null }>
+  // Calls back with every house change made elsewhere, including echoes of
+  // this client's own writes, and deletes that may belong to other households;
+  // returns an unsubscribe function.
+  subscribe: (
+    householdId: string,
+    onChange: (change: RemoteHouseChange) => void
+  ) => () => void
+  uploadPhoto: (path: string, file: File) => Promise<PhotoUpload>
+  // Fresh URLs for stored photos, which may only be readable for a while.
+  photoUrls: (paths: string[]) => Promise<PhotoUrls>
+  deletePhoto: (path: string) => Promise<{ error: QueryError | null }>
+}
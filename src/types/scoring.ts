@@ -0,0 +1,67 @@
+import type { FinanceSettings } from './finance'
+import type { House } from './house'
+import type { SubjectiveRating } from './tour'
+import type { CustomAttribute } from './customAttribute'
+
+export type ScoreDirection = 'higher' | 'lower'
+
+export interface LinearCurve {
+  type: 'linear'
+  min: number
+  max: number
+  direction: ScoreDirection
+}
+
+export interface StepCurve {
+  type: 'step'
+  // An exact breakpoint only matches its own value, not everything past it.
+  breakpoints: { at: number; score: number; exact?: boolean }[]
+  direction: ScoreDirection
+  otherwise: number
+}
+
+export interface BooleanCurve {
+  type: 'boolean'
+  prefer: boolean
+}
+
+export interface ThresholdCurve {
+  type: 'threshold'
+  threshold: number
+  direction: ScoreDirection
+}
+
+export type ScoreCurve = LinearCurve | StepCurve | BooleanCurve | ThresholdCurve
+
+export interface CriterionDefinition {
+  key: string
+  label: string
+  field: keyof House
+  destinationId?: string
+  rating?: SubjectiveRating
+  weightKey?: string
+  weightShare?: number
+  finance?: FinanceSettings
+  attribute?: CustomAttribute
+  curve: ScoreCurve
+  fallback?: number
+}
+
+export type Weights = Record<string, number>
+
+export interface CriterionContribution {
+  key: string
+  label: string
+  rawValue: string | number | boolean | null
+  value: number | boolean
+  subScore: number
+  weight: number
+  points: number
+  maxPoints: number
+  pointsLost: number
+}
+
+export interface ScoreBreakdown {
+  score: number
+  contributions: CriterionContribution[]
+}
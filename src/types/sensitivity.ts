@@ -0,0 +1,19 @@
+export interface WeightSweep {
+  key: string
+  values: number[]
+  ranks: Record<string, number[]>
+}
+
+export interface HouseStability {
+  houseId: string
+  currentRank: number
+  bestRank: number
+  worstRank: number
+  sensitiveTo: string[]
+}
+
+export interface MonteCarloResult {
+  houseId: string
+  firstShare: number
+  topThreeShare: number
+}
@@ -0,0 +1,9 @@
+export type HouseStatus =
+  | 'interested'
+  | 'scheduled_tour'
+  | 'toured'
+  | 'offer_made'
+  | 'under_contract'
+  | 'sold'
+  | 'withdrawn'
+  | 'rejected'
@@ -0,0 +1,77 @@
+import type { HouseEvent } from './history'
+import type { House } from './house'
+
+export type SyncStatus = 'synced' | 'syncing' | 'offline' | 'error'
+
+export type WriteOperation = 'insert' | 'update' | 'delete'
+
+export interface PendingWrite {
+  id: string
+  operation: WriteOperation
+  house_id: string
+  // null for deletes.
+  house: House | null
+  // The server copy the edit was made against; null for inserts.
+  base: House | null
+  // History to record once the write lands, so an event never reaches the
+  // server ahead of its house. Missing on writes cached before it existed.
+  events?: HouseEvent[]
+  queued_at: string
+}
+
+// Where a write stands once the store has tried to send it: 'queued' means
+// it is kept locally and replays when the connection comes back.
+export type WriteStatus = 'saved' | 'queued' | 'failed'
+
+export interface FailedWrite extends PendingWrite {
+  reason: 'conflict' | 'rejected'
+  message: string
+  // Fields changed both here and on the server since `base`.
+  conflicts: string[]
+  // The server copy at replay time; null if the row no longer exists.
+  remote: House | null
+}
+
+export interface SyncState {
+  status: SyncStatus
+  pending: PendingWrite[]
+  failed: FailedWrite[]
+  last_synced_at: string | null
+}
+
+export interface CachedHouses extends Omit<SyncState, 'status'> {
+  houses: House[]
+}
+
+export interface HouseCache {
+  load: (householdId: string) => Promise<CachedHouses | null>
+  save: (householdId: string, data: CachedHouses) => Promise<boolean>
+}
+
+export interface QueryError {
+  message: string
+  code?: string
+}
+
+export interface QueryResult {
+  data: House[] | null
+  error: QueryError | null
+}
+
+// The slice of the Supabase query builder the sync layer uses, so the
+// browser-local backend can answer the same queries.
+export interface HouseQuery extends PromiseLike<QueryResult> {
+  eq: (column: string, value: string) => HouseQuery
+  select: (columns: string) => HouseQuery
+}
+
+export interface HouseTable {
+  select: (columns: string) => HouseQuery
+  insert: (row: House & { household_id: string }) => HouseQuery
+  update: (row: Partial<House>) => HouseQuery
+  delete: () => HouseQuery
+}
+
+export interface HouseClient {
+  from: (table: 'houses') => HouseTable
+}
@@ -0,0 +1,15 @@
+export type SubjectiveRating = 'light' | 'noise' | 'layout' | 'neighborhood'
+
+export interface TourPhoto {
+  path: string
+  url: string
+  uploaded_at: string
+}
+
+export interface TourNotes {
+  notes: string
+  pros: string[]
+  cons: string[]
+  ratings: Partial<Record<SubjectiveRating, number>>
+  photos: TourPhoto[]
+}
@@ -0,0 +1,26 @@
+import type { House } from './house'
+import type { Weights } from './scoring'
+
+// One house before and after an action; null means it didn't exist.
+export interface HouseChange {
+  id: string
+  before: House | null
+  after: House | null
+}
+
+interface UndoEntryBase {
+  id: string
+  label: string
+  at: string
+}
+
+export type UndoEntry = UndoEntryBase &
+  (
+    | { kind: 'houses'; changes: HouseChange[] }
+    | { kind: 'weights'; before: Weights; after: Weights }
+  )
+
+export interface UndoHistory {
+  past: UndoEntry[]
+  future: UndoEntry[]
+}
@@ -0,0 +1,19 @@
+import type { House } from './house'
+
+export interface FieldSchema {
+  label: string
+  type: 'string' | 'number' | 'url'
+  required?: boolean
+  min?: number
+  max?: number
+  // Blank numbers become null instead of 0.
+  nullable?: boolean
+  // 0 stands for "not entered", so the range only applies to other values.
+  zeroIsUnset?: boolean
+}
+
+export type HouseSchema = Partial<Record<keyof House, FieldSchema>>
+
+export type ValidationErrors = Partial<Record<keyof House, string>>
+
+export type HouseInputs = Partial<Record<keyof House, string>>
@@ -0,0 +1,12 @@
+import type { FinanceSettings } from './finance'
+import type { Weights } from './scoring'
+
+export interface WeightProfile {
+  id: string
+  name: string
+  weights: Weights
+  budget_limit: number
+  finance: FinanceSettings
+  is_rater: boolean
+  last_used_at: string
+}
@@ -0,0 +1,84 @@
+import { v4 as uuidV4 } from 'uuid'
+import type { ActivityKind, HouseActivity } from '../types/activity'
+import type { House } from '../types/house'
+import type { TrackedField } from '../types/history'
+import type { HouseholdMember } from '../types/household'
+import type { RemoteHouseChange } from '../types/repository'
+import { trackedFields } from './history'
+import { changedFields } from './houseSync'
+
+export const maxActivity = 20
+
+// Bookkeeping columns every write touches.
+const ignoredFields = [
+  'deleted_at',
+  'updated_at',
+  'updated_by',
+  'household_id',
+  'calculated_score'
+]
+
+// Fields a person changed between two copies of a house.
+export const editedFields = (before: House, after: House) =>
+  changedFields(before, after).filter((field) => !ignoredFields.includes(field))
+
+export const describeRemoteChange = (
+  change: RemoteHouseChange,
+  previous: House | null
+): HouseActivity | null => {
+  const house = change.house ?? previous
+  if (!house) return null
+  const fields =
+    previous && change.house ? editedFields(previous, change.house) : []
+  const kind: ActivityKind = !previous
+    ? 'added'
+    : !change.house || (change.house.deleted_at && !previous.deleted_at)
+      ? 'removed'
+      : previous.deleted_at && !change.house.deleted_at
+        ? 'restored'
+        : 'changed'
+  if (kind === 'changed' && fields.length === 0) return null
+  return {
+    id: uuidV4(),
+    house_id: change.house_id,
+    address: house.address,
+    kind,
+    fields,
+    user_id: change.changed_by,
+    at: new Date().toISOString()
+  }
+}
+
+export const fieldLabel = (field: string) =>
+  trackedFields[field as TrackedField] ?? field.replace(/_/g, ' ')
+
+export const memberName = (
+  members: HouseholdMember[],
+  userId: string | null
+) => {
+  const email = members.find((m) => m.user_id === userId)?.email
+  return email ? email.split('@')[0] : userId ? 'Your partner' : 'Someone'
+}
+
+export const describeActivity = (
+  activity: HouseActivity,
+  members: HouseholdMember[]
+) => {
+  const who = memberName(members, activity.user_id)
+  if (activity.kind === 'added') return `${who} added ${activity.address}`
+  if (activity.kind === 'removed') return `${who} removed ${activity.address}`
+  if (activity.kind === 'restored') {
+    return `${who} restored ${activity.address}`
+  }
+  return `${who} changed ${activity.fields
+    .map(fieldLabel)
+    .join(', ')} on ${activity.address}`
+}
+
+export const timeAgo = (at: string, now = Date.now()) => {
+  const minutes = Math.floor((now - new Date(at).getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes} min ago`
+  const hours = Math.floor(minutes / 60)
+  return hours < 24 ? `${hours} hr ago` : new Date(at).toLocaleDateString()
+}
@@ -0,0 +1,62 @@
+const streetSuffixes: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  av: 'ave',
+  road: 'rd',
+  drive: 'dr',
+  lane: 'ln',
+  court: 'ct',
+  boulevard: 'blvd',
+  place: 'pl',
+  terrace: 'ter',
+  circle: 'cir',
+  parkway: 'pkwy',
+  highway: 'hwy',
+  trail: 'trl',
+  way: 'way',
+  square: 'sq'
+}
+
+const directions: Record<string, string> = {
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+  northeast: 'ne',
+  northwest: 'nw',
+  southeast: 'se',
+  southwest: 'sw'
+}
+
+const unitWords = ['apt', 'apartment', 'unit', 'suite', 'ste']
+
+export const normalizeAddress = (address: string) => {
+  const words = (address || '')
+    .toLowerCase()
+    .replace(/#\s*/g, ' unit ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  const normalized: string[] = []
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i]
+    if (unitWords.includes(word)) {
+      while (i + 1 < words.length && unitWords.includes(words[i + 1])) i++
+      if (i + 1 < words.length) normalized.push('unit', words[++i])
+    } else {
+      normalized.push(streetSuffixes[word] ?? directions[word] ?? word)
+    }
+  }
+  return normalized.join(' ')
+}
+
+export const isSameAddress = (
+  a: { address: string; city?: string },
+  b: { address: string; city?: string }
+) => {
+  if (normalizeAddress(a.address) !== normalizeAddress(b.address)) return false
+  const cityA = normalizeAddress(a.city ?? '')
+  const cityB = normalizeAddress(b.city ?? '')
+  return cityA === '' || cityB === '' || cityA === cityB
+}
@@ -0,0 +1,45 @@
+import { getSupabase } from './supabase'
+
+// Magic links come back to the page they were requested from, so a pending
+// invite token in the URL survives the round trip.
+export const signInWithMagicLink = async (email: string) => {
+  const { error } = await getSupabase().auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.href }
+  })
+  if (error) {
+    console.error('Error sending magic link:', error)
+    return error.message
+  }
+  return null
+}
+
+export const signInWithPassword = async (email: string, password: string) => {
+  const { error } = await getSupabase().auth.signInWithPassword({
+    email,
+    password
+  })
+  if (error) {
+    console.error('Error signing in:', error)
+    return error.message
+  }
+  return null
+}
+
+export const signUpWithPassword = async (email: string, password: string) => {
+  const { error } = await getSupabase().auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: window.location.href }
+  })
+  if (error) {
+    console.error('Error signing up:', error)
+    return error.message
+  }
+  return null
+}
+
+export const signOut = async () => {
+  const { error } = await getSupabase().auth.signOut()
+  if (error) console.error('Error signing out:', error)
+}
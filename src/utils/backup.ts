@@ -0,0 +1,75 @@
+import type { Backup } from '../types/backup'
+import type { Destination } from '../types/commute'
+import type { CustomAttribute } from '../types/customAttribute'
+import type { House } from '../types/house'
+import type { TourNotes } from '../types/tour'
+import type { WeightProfile } from '../types/weightProfile'
+import type { ImportField } from '../types/import'
+import { exportHeader, formatFieldValue } from './csvImport'
+import { migrateLegacyStatus } from './status'
+
+export const backupVersion = 1
+
+export const createBackup = (
+  houses: House[],
+  profiles: WeightProfile[],
+  destinations: Destination[],
+  attributes: CustomAttribute[]
+): Backup => ({
+  version: backupVersion,
+  exported_at: new Date().toISOString(),
+  houses,
+  weight_profiles: profiles,
+  destinations,
+  custom_attributes: attributes
+})
+
+export const parseBackup = (text: string): Backup | null => {
+  try {
+    const parsed = JSON.parse(text)
+    if (!parsed || !Array.isArray(parsed.houses)) return null
+    return {
+      version: Number(parsed.version) || backupVersion,
+      exported_at: String(parsed.exported_at ?? ''),
+      houses: parsed.houses.map(migrateLegacyStatus),
+      weight_profiles: Array.isArray(parsed.weight_profiles)
+        ? parsed.weight_profiles
+        : [],
+      destinations: Array.isArray(parsed.destinations)
+        ? parsed.destinations
+        : [],
+      custom_attributes: Array.isArray(parsed.custom_attributes)
+        ? parsed.custom_attributes
+        : []
+    }
+  } catch {
+    return null
+  }
+}
+
+export const backupToRows = (backup: Backup, fields: ImportField[]) =>
+  backup.houses.map((house) =>
+    Object.fromEntries(
+      fields.map((field) => [
+        exportHeader(field),
+        formatFieldValue(house, field)
+      ])
+    )
+  )
+
+// Tour notes don't fit CSV columns, so they skip the import rows and are put
+// back on each house, by id, as it is saved.
+export const backupTourNotes = (backup: Backup) =>
+  new Map(
+    backup.houses
+      .filter((house) => house.tour_notes)
+      .map((house) => [house.id, house.tour_notes])
+  )
+
+export const withTourNotes = (
+  house: House,
+  tourNotes: Map<string, TourNotes> | undefined
+): House => {
+  const tour = tourNotes?.get(house.id)
+  return tour ? { ...house, tour_notes: tour } : house
+}
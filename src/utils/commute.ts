@@ -0,0 +1,132 @@
+import type { Commute, Destination } from '../types/commute'
+import type { House } from '../types/house'
+
+export const defaultDestination: Destination = {
+  id: 'a-and-g',
+  name: 'A & G',
+  weight: 5,
+  max_minutes: 50,
+  position: 0,
+  lat: null,
+  lng: null
+}
+
+// Used to compare houses that only have a mileage: 2 min/mile is ~30 mph.
+const minutesPerMile = 2
+const milesPerKilometer = 0.621371
+
+const number = '(\\d+(?:\\.\\d+)?)'
+const hoursPattern = new RegExp(`${number}\\s*(?:hours?|hrs?|h)(?![a-z])`)
+const minutesPattern = new RegExp(`${number}\\s*(?:minutes?|mins?|m)(?![a-z])`)
+const milesPattern = new RegExp(`${number}\\s*(?:miles?|mi)(?![a-z])`)
+const kilometersPattern = new RegExp(
+  `${number}\\s*(?:kilometers?|kilometres?|km)(?![a-z])`
+)
+const clockPattern = /^(\d+):(\d{2})$/
+const barePattern = /^\d+(?:\.\d+)?$/
+
+export const parseDistance = (
+  text: string | number | null | undefined
+): Pick<Commute, 'minutes' | 'miles'> | null => {
+  const value = String(text ?? '')
+    .trim()
+    .toLowerCase()
+  if (value === '') return null
+
+  if (barePattern.test(value)) return { minutes: Number(value), miles: null }
+  const clock = value.match(clockPattern)
+  if (clock) {
+    return { minutes: Number(clock[1]) * 60 + Number(clock[2]), miles: null }
+  }
+
+  const hours = value.match(hoursPattern)
+  const minutes = value.match(minutesPattern)
+  const miles = value.match(milesPattern)
+  const kilometers = value.match(kilometersPattern)
+
+  const totalMinutes =
+    hours || minutes
+      ? Math.round(Number(hours?.[1] ?? 0) * 60 + Number(minutes?.[1] ?? 0))
+      : null
+  const totalMiles = miles
+    ? Number(miles[1])
+    : kilometers
+      ? Math.round(Number(kilometers[1]) * milesPerKilometer * 10) / 10
+      : null
+
+  if (totalMinutes === null && totalMiles === null) return null
+  return { minutes: totalMinutes, miles: totalMiles }
+}
+
+export const findCommute = (
+  house: House,
+  destinationId = defaultDestination.id
+) => (house.commutes ?? []).find((c) => c.destination_id === destinationId)
+
+export const commuteMinutes = (commute?: Commute) => {
+  if (!commute) return null
+  if (commute.minutes !== null && commute.minutes !== undefined) {
+    return commute.minutes
+  }
+  if (commute.miles !== null && commute.miles !== undefined) {
+    return commute.miles * minutesPerMile
+  }
+  return null
+}
+
+export const formatCommute = (commute?: Commute) => {
+  if (!commute) return ''
+  const parts: string[] = []
+  if (commute.minutes !== null && commute.minutes !== undefined) {
+    parts.push(`${commute.minutes} min`)
+  }
+  if (commute.miles !== null && commute.miles !== undefined) {
+    parts.push(`${commute.miles} miles`)
+  }
+  return parts.join(' / ')
+}
+
+export const setCommute = (
+  commutes: Commute[],
+  destinationId: string,
+  values: Partial<Pick<Commute, 'minutes' | 'miles'>>
+): Commute[] => {
+  const existing = commutes.find((c) => c.destination_id === destinationId)
+  const updated = {
+    destination_id: destinationId,
+    minutes: null,
+    miles: null,
+    ...existing,
+    ...values
+  }
+  const others = commutes.filter((c) => c.destination_id !== destinationId)
+  return updated.minutes === null && updated.miles === null
+    ? others
+    : [...others, updated]
+}
+
+export const migrateLegacyDistance = (house: House): House | null => {
+  if ((house.commutes ?? []).length > 0 || !house.distance) return null
+  const parsed = parseDistance(house.distance)
+  if (!parsed) return null
+  return {
+    ...house,
+    commutes: [{ destination_id: defaultDestination.id, ...parsed }]
+  }
+}
+
+export const averageCommuteMinutes = (
+  house: House,
+  destinations: Destination[]
+) => {
+  if ((house.commutes ?? []).length === 0 || destinations.length === 0) {
+    return Infinity
+  }
+  const totalWeight = destinations.reduce((sum, d) => sum + d.weight, 0)
+  return destinations.reduce((sum, d) => {
+    const minutes = commuteMinutes(findCommute(house, d.id)) ?? d.max_minutes
+    const share =
+      totalWeight > 0 ? d.weight / totalWeight : 1 / destinations.length
+    return sum + minutes * share
+  }, 0)
+}
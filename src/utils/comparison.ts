@@ -0,0 +1,238 @@
+import type { ComparisonRow } from '../types/comparison'
+import type { ConsensusScore } from '../types/consensus'
+import type { CustomAttribute } from '../types/customAttribute'
+import type { Destination } from '../types/commute'
+import type { FinanceSettings } from '../types/finance'
+import type { House } from '../types/house'
+import type { ScoreBreakdown } from '../types/scoring'
+import type { SubjectiveRating } from '../types/tour'
+import { commuteMinutes, findCommute, formatCommute } from './commute'
+import { formatMonthly, monthlyCost } from './mortgage'
+import { statusLabels } from './status'
+import { formatCustomValue, readCustomValue } from './customAttributes'
+import { subjectiveRatings } from './tour'
+
+export const maxCompared = 5
+
+type Direction = 'higher' | 'lower' | 'none'
+
+const extremes = (numbers: (number | null)[], direction: Direction) => {
+  const present = numbers.filter((n): n is number => n !== null)
+  if (direction === 'none' || present.length < 2) return { best: [], worst: [] }
+  const max = Math.max(...present)
+  const min = Math.min(...present)
+  if (max === min) return { best: [], worst: [] }
+  const indexesOf = (target: number) =>
+    numbers.flatMap((n, i) => (n === target ? [i] : []))
+  return direction === 'higher'
+    ? { best: indexesOf(max), worst: indexesOf(min) }
+    : { best: indexesOf(min), worst: indexesOf(max) }
+}
+
+const row = (
+  key: string,
+  label: string,
+  section: ComparisonRow['section'],
+  values: string[],
+  numbers: (number | null)[],
+  direction: Direction
+): ComparisonRow => ({
+  key,
+  label,
+  section,
+  values,
+  ...extremes(numbers, direction)
+})
+
+const yesNo = (value: boolean) => (value ? 'Yes' : 'No')
+
+// Scores come from the same breakdowns as the sub-scores below them; a
+// consensus ranking gets its own row.
+export const buildComparisonRows = (
+  houses: House[],
+  breakdowns: Map<string, ScoreBreakdown>,
+  destinations: Destination[],
+  finance: FinanceSettings,
+  attributes: CustomAttribute[],
+  consensus: Map<string, ConsensusScore> | null
+): ComparisonRow[] => {
+  const scores = houses.map(
+    (h) => breakdowns.get(h.id)?.score ?? h.calculated_score
+  )
+  const bestScore = Math.max(...scores)
+  const consensusScores = houses.map((h) => consensus?.get(h.id)?.score ?? null)
+
+  const numeric = (
+    key: keyof House,
+    label: string,
+    direction: Direction,
+    format: (value: number) => string = (v) => v.toLocaleString()
+  ) =>
+    row(
+      key,
+      label,
+      'details',
+      houses.map((h) => format(Number(h[key]) || 0)),
+      houses.map((h) => Number(h[key]) || 0),
+      direction
+    )
+
+  const boolean = (
+    key: keyof House,
+    label: string,
+    preferred: boolean,
+    value: (house: House) => boolean = (h) => h[key] === true
+  ) =>
+    row(
+      key,
+      label,
+      'details',
+      houses.map((h) => yesNo(value(h))),
+      houses.map((h) => (value(h) === preferred ? 1 : 0)),
+      'higher'
+    )
+
+  const attributeRows = attributes.map((attribute) => {
+    const values = houses.map((h) => readCustomValue(h, attribute))
+    return row(
+      `custom:${attribute.id}`,
+      attribute.name,
+      'details',
+      values.map((v) => formatCustomValue(attribute, v) || 'N/A'),
+      attribute.type === 'number'
+        ? values.map((v) => (v === null || v === '' ? null : Number(v)))
+        : attribute.type === 'boolean'
+          ? values.map((v) =>
+              v === null ? null : v === attribute.prefer ? 1 : 0
+            )
+          : [],
+      attribute.type === 'number'
+        ? attribute.direction
+        : attribute.type === 'boolean'
+          ? 'higher'
+          : 'none'
+    )
+  })
+
+  const ratingRows = (Object.keys(subjectiveRatings) as SubjectiveRating[]).map(
+    (rating) => {
+      const values = houses.map((h) => h.tour_notes?.ratings[rating] ?? null)
+      return row(
+        `tour:${rating}`,
+        `Tour: ${subjectiveRatings[rating]}`,
+        'details',
+        values.map((v) => (v === null ? 'N/A' : `${v}/5`)),
+        values,
+        'higher'
+      )
+    }
+  )
+
+  const subScoreRows = (breakdowns.get(houses[0]?.id)?.contributions ?? []).map(
+    ({ key, label }) => {
+      const subScores = houses.map(
+        (h) =>
+          breakdowns.get(h.id)?.contributions.find((c) => c.key === key)
+            ?.subScore ?? null
+      )
+      return row(
+        `sub:${key}`,
+        label,
+        'sub-scores',
+        subScores.map((s) => (s === null ? 'N/A' : s.toFixed(0))),
+        subScores,
+        'higher'
+      )
+    }
+  )
+
+  return [
+    row(
+      'calculated_score',
+      'Score',
+      'score',
+      scores.map((s) => s.toFixed(1)),
+      scores,
+      'higher'
+    ),
+    ...(consensus
+      ? [
+          row(
+            'consensus_score',
+            'Consensus',
+            'score',
+            consensusScores.map((s) => (s === null ? 'N/A' : s.toFixed(1))),
+            consensusScores,
+            'higher'
+          )
+        ]
+      : []),
+    row(
+      'score_delta',
+      'Behind Best',
+      'score',
+      scores.map((s) =>
+        s === bestScore ? '—' : `-${(bestScore - s).toFixed(1)}`
+      ),
+      [],
+      'none'
+    ),
+    row(
+      'city',
+      'City',
+      'details',
+      houses.map((h) => h.city || 'N/A'),
+      [],
+      'none'
+    ),
+    row(
+      'style',
+      'Style',
+      'details',
+      houses.map((h) => h.style || 'N/A'),
+      [],
+      'none'
+    ),
+    numeric('price', 'Price', 'lower', (v) => `$${v.toLocaleString()}`),
+    row(
+      'monthly_cost',
+      'Monthly Cost',
+      'details',
+      houses.map((h) => formatMonthly(monthlyCost(h, finance).total)),
+      houses.map((h) => monthlyCost(h, finance).total),
+      'lower'
+    ),
+    numeric('bedrooms', 'Bedrooms', 'higher'),
+    numeric('bathrooms', 'Bathrooms', 'higher'),
+    numeric('size', 'Size (sqft)', 'higher'),
+    numeric('year_built', 'Year Built', 'higher', String),
+    numeric('garage_spaces', 'Garage Spaces', 'higher'),
+    numeric('hoa_fee', 'HOA Fee', 'lower', (v) => `$${v}/mo`),
+    ...destinations.map((destination) =>
+      row(
+        `commute:${destination.id}`,
+        `Commute to ${destination.name}`,
+        'details',
+        houses.map(
+          (h) => formatCommute(findCommute(h, destination.id)) || 'N/A'
+        ),
+        houses.map((h) => commuteMinutes(findCommute(h, destination.id))),
+        'lower'
+      )
+    ),
+    boolean('walk_in_closet', 'Walk-in Closet', true),
+    boolean('kitchen_island', 'Kitchen Island', true),
+    boolean('yard_maintenance', 'High Maintenance Yard', false),
+    row(
+      'status',
+      'Status',
+      'details',
+      houses.map((h) => statusLabels[h.status]),
+      [],
+      'none'
+    ),
+    ...attributeRows,
+    ...ratingRows,
+    ...subScoreRows
+  ]
+}
@@ -0,0 +1,78 @@
+import type { House } from '../types/house'
+import type { Aggregation, ConsensusScore } from '../types/consensus'
+import type { WeightProfile } from '../types/weightProfile'
+import type { CriterionDefinition } from '../types/scoring'
+import { defaultCriteria, scoreHouse } from './scoring'
+
+export const aggregationLabels: Record<Aggregation, string> = {
+  average: 'Average',
+  minimum: 'Least miserable',
+  borda: 'Borda count'
+}
+
+const bordaPoints = (scores: number[]) => {
+  const order = scores
+    .map((score, index) => ({ score, index }))
+    .sort((a, b) => b.score - a.score)
+  const points = new Array<number>(scores.length).fill(0)
+
+  let position = 0
+  while (position < order.length) {
+    let end = position
+    while (
+      end + 1 < order.length &&
+      order[end + 1].score === order[position].score
+    ) {
+      end++
+    }
+    const tiedPoints =
+      (scores.length - 1 - position + (scores.length - 1 - end)) / 2
+    for (let i = position; i <= end; i++) {
+      points[order[i].index] = tiedPoints
+    }
+    position = end + 1
+  }
+  return points
+}
+
+export const scoreConsensus = (
+  houses: House[],
+  raters: WeightProfile[],
+  aggregation: Aggregation,
+  criteria: CriterionDefinition[] = defaultCriteria
+): Map<string, ConsensusScore> => {
+  const scoresByRater = raters.map((rater) =>
+    houses.map((house) => scoreHouse(house, rater.weights, criteria))
+  )
+  const bordaByRater =
+    aggregation === 'borda' ? scoresByRater.map(bordaPoints) : []
+  const maxBorda = raters.length * Math.max(1, houses.length - 1)
+
+  return new Map(
+    houses.map((house, h) => {
+      const raterScores = raters.map((rater, r) => ({
+        raterId: rater.id,
+        name: rater.name,
+        score: scoresByRater[r][h]
+      }))
+      const values = raterScores.map((s) => s.score)
+
+      let score = 0
+      if (values.length > 0) {
+        if (aggregation === 'minimum') {
+          score = Math.min(...values)
+        } else if (aggregation === 'borda') {
+          const total = bordaByRater.reduce((sum, points) => sum + points[h], 0)
+          score = (total / maxBorda) * 100
+        } else {
+          score = values.reduce((sum, v) => sum + v, 0) / values.length
+        }
+      }
+
+      const spread =
+        values.length > 1 ? Math.max(...values) - Math.min(...values) : 0
+
+      return [house.id, { houseId: house.id, raterScores, score, spread }]
+    })
+  )
+}
@@ -0,0 +1,490 @@
+import type { Destination } from '../types/commute'
+import type { House } from '../types/house'
+import type {
+  ColumnMapping,
+  FieldChange,
+  ImportField,
+  ImportFieldType,
+  ImportRow
+} from '../types/import'
+import { isSameAddress, normalizeAddress } from './address'
+import { createEmptyHouse } from './house'
+import {
+  findCommute,
+  formatCommute,
+  parseDistance,
+  setCommute
+} from './commute'
+import { canTransition, parseStatus, statusLabels } from './status'
+import { parseNumber, validateHouse } from './validation'
+import type { CustomAttribute, CustomValue } from '../types/customAttribute'
+import {
+  customAttributeKey,
+  readCustomValue,
+  setCustomValue
+} from './customAttributes'
+
+export const importFields: ImportField[] = [
+  {
+    field: 'address',
+    label: 'Address',
+    type: 'string',
+    aliases: ['street address', 'street', 'full address', 'property address']
+  },
+  { field: 'city', label: 'City', type: 'string', aliases: ['town'] },
+  {
+    field: 'price',
+    label: 'Price',
+    type: 'number',
+    aliases: ['list price', 'asking price', 'sale price', 'listing price']
+  },
+  {
+    field: 'bedrooms',
+    label: 'Bedrooms',
+    type: 'number',
+    aliases: ['beds', 'bed', 'br', 'bd']
+  },
+  {
+    field: 'bathrooms',
+    label: 'Bathrooms',
+    type: 'number',
+    aliases: ['baths', 'bath', 'ba', 'total baths']
+  },
+  {
+    field: 'size',
+    label: 'Size (sqft)',
+    type: 'number',
+    aliases: [
+      'sq ft',
+      'sqft',
+      'square feet',
+      'square footage',
+      'living area',
+      'living sq ft'
+    ]
+  },
+  {
+    field: 'style',
+    label: 'Style',
+    type: 'string',
+    aliases: ['property type', 'home type', 'type']
+  },
+  {
+    field: 'year_built',
+    label: 'Year Built',
+    type: 'number',
+    aliases: ['year', 'built']
+  },
+  {
+    field: 'garage_spaces',
+    label: 'Garage Spaces',
+    type: 'number',
+    aliases: ['garage', 'parking spaces', 'garage stalls']
+  },
+  {
+    field: 'walk_in_closet',
+    label: 'Walk-in Closet',
+    type: 'boolean',
+    aliases: ['walk in closet', 'walkin closet']
+  },
+  {
+    field: 'kitchen_island',
+    label: 'Kitchen Island',
+    type: 'boolean',
+    aliases: ['island']
+  },
+  {
+    field: 'yard_maintenance',
+    label: 'High Maintenance Yard',
+    type: 'boolean',
+    aliases: ['yard', 'high maintenance yard']
+  },
+  {
+    field: 'hoa_fee',
+    label: 'HOA Fee',
+    type: 'number',
+    aliases: ['hoa', 'hoa/month', 'hoa fees', 'hoa dues', 'monthly hoa']
+  },
+  {
+    field: 'status',
+    label: 'Status',
+    type: 'status',
+    aliases: ['sold', 'availability', 'stage']
+  },
+  {
+    field: 'thumbnail_url',
+    label: 'Thumbnail URL',
+    type: 'string',
+    aliases: ['thumbnail', 'image', 'image url', 'photo', 'photo url']
+  },
+  {
+    field: 'lat',
+    label: 'Latitude',
+    type: 'number',
+    aliases: ['lat', 'latitude']
+  },
+  {
+    field: 'lng',
+    label: 'Longitude',
+    type: 'number',
+    aliases: ['lng', 'lon', 'long', 'longitude']
+  },
+  { field: 'id', label: 'ID', type: 'string', aliases: [] }
+]
+
+export const getImportFields = (
+  destinations: Destination[],
+  attributes: CustomAttribute[] = []
+): ImportField[] => [
+  ...importFields,
+  ...destinations.map((destination, index) => ({
+    field: 'commutes' as const,
+    label: `Commute to ${destination.name}`,
+    type: 'commute' as const,
+    destinationId: destination.id,
+    aliases: [
+      destination.name,
+      `distance to ${destination.name}`,
+      `distance from ${destination.name}`,
+      ...(index === 0 ? ['distance', 'commute', 'drive time'] : [])
+    ]
+  })),
+  ...attributes.map((attribute) => ({
+    field: 'custom' as const,
+    label: attribute.name,
+    type: 'custom' as const,
+    attribute,
+    aliases: []
+  }))
+]
+
+export const importFieldKey = (field: ImportField) => {
+  if (field.destinationId) return `commutes:${field.destinationId}`
+  if (field.attribute) return customAttributeKey(field.attribute)
+  return field.field
+}
+
+export const exportHeader = (field: ImportField) =>
+  field.destinationId || field.attribute ? field.label : field.field
+
+export const formatFieldValue = (house: House, field: ImportField) => {
+  if (field.type === 'commute') {
+    return formatCommute(findCommute(house, field.destinationId))
+  }
+  if (field.attribute) {
+    const value = readCustomValue(house, field.attribute)
+    return value === null ? '' : String(value)
+  }
+  const value = house[field.field]
+  return value === null || value === undefined ? '' : String(value)
+}
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+export const autoMapHeaders = (
+  headers: string[],
+  fields: ImportField[] = importFields
+): ColumnMapping => {
+  const lookup = new Map<string, string>()
+  for (const field of fields) {
+    for (const name of [importFieldKey(field), field.label, ...field.aliases]) {
+      const key = normalizeHeader(name)
+      if (!lookup.has(key)) lookup.set(key, importFieldKey(field))
+    }
+  }
+
+  const used = new Set<string>()
+  const mapping: ColumnMapping = {}
+  for (const header of headers) {
+    const key = lookup.get(normalizeHeader(header))
+    if (key && !used.has(key)) {
+      mapping[header] = key
+      used.add(key)
+    } else {
+      mapping[header] = ''
+    }
+  }
+  return mapping
+}
+
+const trueValues = ['true', 'yes', 'y', '1', 'x', 'sold']
+const falseValues = ['false', 'no', 'n', '0', 'active', 'available', 'pending']
+
+const coerceValue = (
+  type: ImportFieldType,
+  raw: string
+): { value?: string | number | boolean; error?: string } => {
+  const text = raw.trim()
+  if (type === 'string') return { value: text }
+  if (text === '') return {}
+
+  if (type === 'number') return parseNumber(text)
+
+  const lower = text.toLowerCase()
+  if (type === 'status') {
+    // Legacy sheets only have a yes/no "sold" column; "no" leaves the status
+    // alone rather than resetting a house that has moved along the pipeline.
+    const status = parseStatus(text)
+    if (status) return { value: status }
+    if (trueValues.includes(lower)) return { value: 'sold' }
+    if (falseValues.includes(lower)) return {}
+    return { error: `"${text}" is not a listing status` }
+  }
+
+  if (trueValues.includes(lower)) return { value: true }
+  if (falseValues.includes(lower)) return { value: false }
+  return { error: `"${text}" is not yes/no` }
+}
+
+const coerceCustomValue = (
+  attribute: CustomAttribute,
+  raw: string
+): { value?: CustomValue; error?: string } => {
+  const text = raw.trim()
+  if (text === '') return {}
+  if (attribute.type === 'text') return { value: text }
+  if (attribute.type === 'enum') {
+    const option = attribute.options.find(
+      (o) => o.toLowerCase() === text.toLowerCase()
+    )
+    return option
+      ? { value: option }
+      : { error: `"${text}" is not one of ${attribute.options.join(', ')}` }
+  }
+  return coerceValue(attribute.type, text)
+}
+
+export const validateRow = (
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  line: number,
+  fields: ImportField[] = importFields
+): ImportRow => {
+  const house: House = createEmptyHouse()
+  const errors: string[] = []
+  const byKey = new Map(fields.map((f) => [importFieldKey(f), f]))
+
+  for (const [header, key] of Object.entries(mapping)) {
+    const definition = byKey.get(key)
+    if (!definition) continue
+
+    if (definition.type === 'commute') {
+      const text = (row[header] ?? '').trim()
+      if (text === '') continue
+      const parsed = parseDistance(text)
+      if (parsed) {
+        house.commutes = setCommute(
+          house.commutes,
+          definition.destinationId ?? '',
+          parsed
+        )
+      } else {
+        errors.push(`${definition.label}: "${text}" is not a time or distance`)
+      }
+      continue
+    }
+
+    if (definition.attribute) {
+      const { value, error } = coerceCustomValue(
+        definition.attribute,
+        row[header] ?? ''
+      )
+      if (error) {
+        errors.push(`${definition.label}: ${error}`)
+      } else if (value !== undefined) {
+        house.custom = setCustomValue(
+          house.custom,
+          definition.attribute.id,
+          value
+        )
+      }
+      continue
+    }
+
+    const { value, error } = coerceValue(definition.type, row[header] ?? '')
+    if (error) {
+      errors.push(`${definition.label}: ${error}`)
+    } else if (value !== undefined && !(key === 'id' && value === '')) {
+      Object.assign(house, { [definition.field]: value })
+    }
+  }
+
+  errors.push(...Object.values(validateHouse(house)))
+
+  return {
+    line,
+    house,
+    errors,
+    action: errors.length > 0 ? 'skip' : 'insert',
+    changes: []
+  }
+}
+
+const isLegacyNotSold = (key: string, text: string) =>
+  key === 'status' && falseValues.includes(text.toLowerCase())
+
+const providedKeys = (row: Record<string, string>, mapping: ColumnMapping) =>
+  new Set(
+    Object.entries(mapping)
+      .filter(([header, key]) => {
+        const text = (row[header] ?? '').trim()
+        return key && text !== '' && !isLegacyNotSold(key, text)
+      })
+      .map(([, key]) => key)
+  )
+
+const diffProvidedFields = (
+  existing: House,
+  incoming: House,
+  provided: Set<string>,
+  fields: ImportField[]
+): FieldChange[] => {
+  const changes: FieldChange[] = fields
+    .filter((f) => !['commute', 'custom'].includes(f.type) && f.field !== 'id')
+    .filter((f) => provided.has(importFieldKey(f)))
+    .filter(({ field }) =>
+      field === 'address' || field === 'city'
+        ? normalizeAddress(existing[field]) !==
+          normalizeAddress(incoming[field])
+        : existing[field] !== incoming[field]
+    )
+    .map(({ field, label }) => ({
+      field,
+      label,
+      from: existing[field],
+      to: incoming[field]
+    }))
+
+  const commutes = incoming.commutes.reduce(
+    (merged, commute) => setCommute(merged, commute.destination_id, commute),
+    existing.commutes ?? []
+  )
+  const sortedJson = (list: House['commutes']) =>
+    JSON.stringify(
+      [...list].sort((a, b) => a.destination_id.localeCompare(b.destination_id))
+    )
+  if (sortedJson(commutes) !== sortedJson(existing.commutes ?? [])) {
+    changes.push({
+      field: 'commutes',
+      label: 'Commutes',
+      from: existing.commutes ?? [],
+      to: commutes
+    })
+  }
+
+  const custom = fields
+    .filter(
+      (f): f is ImportField & { attribute: CustomAttribute } =>
+        Boolean(f.attribute) && provided.has(importFieldKey(f))
+    )
+    .reduce(
+      (merged, { attribute }) =>
+        setCustomValue(
+          merged,
+          attribute.id,
+          readCustomValue(incoming, attribute)
+        ),
+      existing.custom ?? {}
+    )
+  const changedCustom = fields.filter(
+    ({ attribute }) =>
+      attribute &&
+      readCustomValue({ ...existing, custom }, attribute) !==
+        readCustomValue(existing, attribute)
+  )
+  if (changedCustom.length > 0) {
+    changes.push({
+      field: 'custom',
+      label: changedCustom.map((f) => f.label).join(', '),
+      from: existing.custom ?? {},
+      to: custom
+    })
+  }
+  return changes
+}
+
+const matchExisting = (
+  row: ImportRow,
+  provided: Set<string>,
+  fields: ImportField[],
+  existing: House[],
+  claimed: Map<string, number>
+): ImportRow => {
+  if (row.action === 'skip') return row
+
+  const match =
+    existing.find((h) => h.id === row.house.id) ??
+    existing.find((h) => isSameAddress(h, row.house))
+  if (!match) return row
+
+  const claimedBy = claimed.get(match.id)
+  if (claimedBy !== undefined) {
+    return {
+      ...row,
+      action: 'skip',
+      errors: [`Duplicate of line ${claimedBy}`]
+    }
+  }
+  claimed.set(match.id, row.line)
+
+  const changes = diffProvidedFields(match, row.house, provided, fields)
+  const statusChange = changes.find((c) => c.field === 'status')
+  if (statusChange && !canTransition(match.status, row.house.status)) {
+    return {
+      ...row,
+      existing: match,
+      action: 'skip',
+      errors: [
+        `Status cannot change from ${statusLabels[match.status]} to ${
+          statusLabels[row.house.status]
+        }`
+      ]
+    }
+  }
+  return {
+    ...row,
+    existing: match,
+    changes,
+    action: changes.length > 0 ? 'update' : 'unchanged'
+  }
+}
+
+export const applyChanges = (existing: House, changes: FieldChange[]) =>
+  changes.reduce<House>(
+    (house, change) => ({ ...house, [change.field]: change.to }),
+    { ...existing }
+  )
+
+export const buildImportPreview = (
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  existing: House[] = [],
+  fields: ImportField[] = importFields
+): ImportRow[] => {
+  const claimed = new Map<string, number>()
+  const pending: ImportRow[] = []
+
+  return rows.map((row, index) => {
+    const validated = validateRow(row, mapping, index + 2, fields)
+    const matched = matchExisting(
+      validated,
+      providedKeys(row, mapping),
+      fields,
+      existing,
+      claimed
+    )
+    if (matched.action !== 'insert') return matched
+
+    const duplicate = pending.find((p) => isSameAddress(p.house, matched.house))
+    if (duplicate) {
+      return {
+        ...matched,
+        action: 'skip',
+        errors: [`Duplicate of line ${duplicate.line}`]
+      }
+    }
+    pending.push(matched)
+    return matched
+  })
+}
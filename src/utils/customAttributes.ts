@@ -0,0 +1,126 @@
+import { v4 as uuidV4 } from 'uuid'
+import { repository } from './repository'
+import type { House } from '../types/house'
+import type {
+  CustomAttribute,
+  CustomAttributeType,
+  CustomValue
+} from '../types/customAttribute'
+
+export const customAttributeTypes: Record<CustomAttributeType, string> = {
+  boolean: 'Yes/No',
+  number: 'Number',
+  enum: 'Choice',
+  text: 'Text'
+}
+
+export const customAttributeKey = (attribute: CustomAttribute) =>
+  `custom:${attribute.id}`
+
+export const isScorable = (attribute: CustomAttribute) =>
+  attribute.type !== 'text' &&
+  (attribute.type !== 'enum' || attribute.options.length > 0)
+
+export const readCustomValue = (
+  house: House,
+  attribute: CustomAttribute
+): CustomValue => house.custom?.[attribute.id] ?? null
+
+export const formatCustomValue = (
+  attribute: CustomAttribute,
+  value: CustomValue
+) => {
+  if (value === null || value === '') return ''
+  if (attribute.type === 'boolean') return value ? 'Yes' : 'No'
+  if (attribute.type === 'number') return Number(value).toLocaleString()
+  return String(value)
+}
+
+export const setCustomValue = (
+  custom: House['custom'] | undefined,
+  attributeId: string,
+  value: CustomValue
+): House['custom'] => {
+  const next = { ...custom }
+  if (value === null || value === '') {
+    delete next[attributeId]
+  } else {
+    next[attributeId] = value
+  }
+  return next
+}
+
+// Enum scores default to an even spread from the first option (best) to the
+// last so a new attribute is scorable before anyone tunes it.
+export const defaultOptionScores = (options: string[]) =>
+  Object.fromEntries(
+    options.map((option, i) => [
+      option,
+      options.length > 1
+        ? Math.round(100 - (i / (options.length - 1)) * 100)
+        : 100
+    ])
+  )
+
+export const createCustomAttribute = (
+  name: string,
+  type: CustomAttributeType,
+  position: number
+): CustomAttribute => ({
+  id: uuidV4(),
+  name,
+  type,
+  options: [],
+  option_scores: {},
+  min: 0,
+  max: 10,
+  direction: 'higher',
+  prefer: true,
+  position
+})
+
+export const loadCustomAttributes = async (householdId: string) => {
+  const { data, error } = await repository.list<CustomAttribute>(
+    'custom_attributes',
+    householdId,
+    {
+      column: 'position',
+      ascending: true
+    }
+  )
+  if (error) {
+    console.error('Error loading custom attributes:', error)
+    return []
+  }
+  return (data ?? []) as CustomAttribute[]
+}
+
+export const saveCustomAttribute = async (
+  householdId: string,
+  attribute: CustomAttribute
+) => {
+  const { error } = await repository.save('custom_attributes', householdId, [
+    attribute
+  ])
+  if (error) {
+    console.error('Error saving custom attribute:', error)
+    return false
+  }
+  return true
+}
+
+export const deleteCustomAttribute = async (
+  householdId: string,
+  id: string
+) => {
+  const { error } = await repository.remove(
+    'custom_attributes',
+    householdId,
+    id
+  )
+  if (error) {
+    console.error('Error deleting custom attribute:', error)
+    return false
+  }
+  return true
+}
@@ -0,0 +1,21 @@
+// Runs only the latest call for each key, once calls for that key have
+// stopped for `delay` ms.
+export const createKeyedDebounce = (delay: number) => {
+  const timers = new Map<string, ReturnType<typeof setTimeout>>()
+  return {
+    schedule: (key: string, run: () => void) => {
+      clearTimeout(timers.get(key))
+      timers.set(
+        key,
+        setTimeout(() => {
+          timers.delete(key)
+          run()
+        }, delay)
+      )
+    },
+    cancel: (key: string) => {
+      clearTimeout(timers.get(key))
+      timers.delete(key)
+    }
+  }
+}
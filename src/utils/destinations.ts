@@ -0,0 +1,57 @@
+import { v4 as uuidV4 } from 'uuid'
+import { repository } from './repository'
+import { defaultDestination } from './commute'
+import type { Destination } from '../types/commute'
+
+export const createDestination = (
+  name: string,
+  position: number
+): Destination => ({
+  ...defaultDestination,
+  id: uuidV4(),
+  name,
+  position
+})
+
+// Resolves with null when the load failed, so callers don't mistake a failure
+// for a household without destinations.
+export const loadDestinations = async (
+  householdId: string
+): Promise<Destination[] | null> => {
+  const { data, error } = await repository.list<Destination>(
+    'destinations',
+    householdId,
+    {
+      column: 'position',
+      ascending: true
+    }
+  )
+  if (error) {
+    console.error('Error loading destinations:', error)
+    return null
+  }
+  return (data ?? []) as Destination[]
+}
+
+export const saveDestination = async (
+  householdId: string,
+  destination: Destination
+) => {
+  const { error } = await repository.save('destinations', householdId, [
+    destination
+  ])
+  if (error) {
+    console.error('Error saving destination:', error)
+    return false
+  }
+  return true
+}
+
+export const deleteDestination = async (householdId: string, id: string) => {
+  const { error } = await repository.remove('destinations', householdId, id)
+  if (error) {
+    console.error('Error deleting destination:', error)
+    return false
+  }
+  return true
+}
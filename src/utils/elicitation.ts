@@ -0,0 +1,176 @@
+import type { House } from '../types/house'
+import type { CriterionDefinition, Weights } from '../types/scoring'
+import type {
+  CriteriaJudgment,
+  ElicitationFit,
+  HouseChoice
+} from '../types/elicitation'
+import { scoreCriterion } from './scoring'
+
+export const judgmentScale = [
+  { ratio: 5, label: 'Much more' },
+  { ratio: 3, label: 'More' },
+  { ratio: 1, label: 'Equal' },
+  { ratio: 1 / 3, label: 'More' },
+  { ratio: 1 / 5, label: 'Much more' }
+]
+
+// Saaty's random consistency index by matrix size.
+const randomIndex = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49]
+const maxConsistencyRatio = 0.1
+
+const scaleWeights = (keys: string[], raw: number[]): Weights => {
+  const max = Math.max(...raw)
+  return Object.fromEntries(
+    keys.map((key, i) => [key, max > 0 ? Math.round((raw[i] / max) * 10) : 0])
+  )
+}
+
+export const isConsistent = (fit: ElicitationFit) =>
+  fit.consistencyRatio === null || fit.consistencyRatio <= maxConsistencyRatio
+
+export const criteriaPairs = (weightKeys: string[]) =>
+  weightKeys.flatMap((a, i) => weightKeys.slice(i + 1).map((b) => ({ a, b })))
+
+// AHP: fill the reciprocal comparison matrix (unanswered pairs count as equal),
+// take the row geometric means as priorities and report Saaty's consistency
+// ratio alongside how many answers the priorities reproduce.
+export const fitCriteriaWeights = (
+  weightKeys: string[],
+  judgments: CriteriaJudgment[]
+): ElicitationFit => {
+  const n = weightKeys.length
+  const index = new Map(weightKeys.map((key, i) => [key, i]))
+  const matrix = weightKeys.map(() => weightKeys.map(() => 1))
+  judgments.forEach(({ a, b, ratio }) => {
+    const i = index.get(a)
+    const j = index.get(b)
+    if (i === undefined || j === undefined) return
+    matrix[i][j] = ratio
+    matrix[j][i] = 1 / ratio
+  })
+
+  const means = matrix.map((row) =>
+    Math.pow(
+      row.reduce((product, value) => product * value, 1),
+      1 / n
+    )
+  )
+  const total = means.reduce((sum, value) => sum + value, 0)
+  const priorities = means.map((value) => value / total)
+
+  const lambdaMax =
+    matrix.reduce(
+      (sum, row, i) =>
+        sum +
+        row.reduce((rowSum, value, j) => rowSum + value * priorities[j], 0) /
+          priorities[i],
+      0
+    ) / n
+  const ri = randomIndex[Math.min(n, randomIndex.length - 1)]
+  const consistencyRatio = ri > 0 ? (lambdaMax - n) / (n - 1) / ri : null
+
+  const weights = scaleWeights(weightKeys, priorities)
+  const agreeing = judgments.filter(({ a, b, ratio }) => {
+    const diff = weights[a] - weights[b]
+    if (ratio === 1) return Math.abs(diff) <= 1
+    return ratio > 1 ? diff > 0 : diff < 0
+  })
+
+  return {
+    weights,
+    agreement: judgments.length > 0 ? agreeing.length / judgments.length : 0,
+    consistencyRatio
+  }
+}
+
+// Sub-scores rolled up per weight key, so a house's total is a weighted sum of
+// these features.
+const houseFeatures = (
+  house: House,
+  criteria: CriterionDefinition[],
+  weightKeys: string[]
+) => {
+  const features = new Map(weightKeys.map((key) => [key, 0]))
+  criteria.forEach((criterion) => {
+    const key = criterion.weightKey ?? criterion.key
+    if (!features.has(key)) return
+    features.set(
+      key,
+      (features.get(key) ?? 0) +
+        (scoreCriterion(house, criterion) / 100) * (criterion.weightShare ?? 1)
+    )
+  })
+  return weightKeys.map((key) => features.get(key) ?? 0)
+}
+
+const dot = (a: number[], b: number[]) =>
+  a.reduce((sum, value, i) => sum + value * b[i], 0)
+
+export const nextHousePair = (
+  houses: House[],
+  choices: HouseChoice[],
+  random: () => number = Math.random
+): [House, House] | null => {
+  const asked = new Set(
+    choices.flatMap((c) => [
+      `${c.winnerId}|${c.loserId}`,
+      `${c.loserId}|${c.winnerId}`
+    ])
+  )
+  const pairs = houses.flatMap((a, i) =>
+    houses
+      .slice(i + 1)
+      .filter((b) => !asked.has(`${a.id}|${b.id}`))
+      .map((b): [House, House] => [a, b])
+  )
+  if (pairs.length === 0) return null
+  return pairs[Math.floor(random() * pairs.length)]
+}
+
+// Bradley–Terry style fit: logistic regression on feature differences between
+// the chosen and rejected house, with weights kept non-negative and started
+// from the current sliders so unanswered trade-offs stay where they were.
+export const fitChoiceWeights = (
+  houses: House[],
+  choices: HouseChoice[],
+  criteria: CriterionDefinition[],
+  weightKeys: string[],
+  startWeights: Weights,
+  iterations = 500,
+  learningRate = 0.5
+): ElicitationFit => {
+  const features = new Map(
+    houses.map((house) => [
+      house.id,
+      houseFeatures(house, criteria, weightKeys)
+    ])
+  )
+  const diffs = choices.flatMap(({ winnerId, loserId }) => {
+    const winner = features.get(winnerId)
+    const loser = features.get(loserId)
+    return winner && loser ? [winner.map((value, i) => value - loser[i])] : []
+  })
+
+  let w = weightKeys.map((key) => (startWeights[key] ?? 0) / 10)
+  for (let step = 0; step < iterations && diffs.length > 0; step++) {
+    const gradient = weightKeys.map(() => 0)
+    diffs.forEach((diff) => {
+      const p = 1 / (1 + Math.exp(-dot(w, diff) * 10))
+      diff.forEach((value, i) => (gradient[i] += (1 - p) * value))
+    })
+    w = w.map((value, i) =>
+      Math.max(0, value + (learningRate * gradient[i]) / diffs.length)
+    )
+  }
+
+  const weights = scaleWeights(weightKeys, w)
+  const fitted = weightKeys.map((key) => weights[key])
+  const agreeing = diffs.filter((diff) => dot(fitted, diff) > 0)
+
+  return {
+    weights,
+    agreement: diffs.length > 0 ? agreeing.length / diffs.length : 0,
+    consistencyRatio: null
+  }
+}
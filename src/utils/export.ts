@@ -0,0 +1,67 @@
+import Papa from 'papaparse'
+import type { House } from '../types/house'
+import type { ScoreBreakdown } from '../types/scoring'
+import type { ImportField } from '../types/import'
+import { exportHeader, formatFieldValue } from './csvImport'
+
+const subScores = (breakdown?: ScoreBreakdown) =>
+  Object.fromEntries(
+    (breakdown?.contributions ?? []).map((c) => [
+      c.key,
+      Math.round(c.subScore * 10) / 10
+    ])
+  )
+
+export const scoredHousesToCsv = (
+  houses: House[],
+  breakdowns: Map<string, ScoreBreakdown>,
+  fields: ImportField[]
+) => {
+  const rows = houses.map((house) => {
+    const row: Record<string, unknown> = {}
+    for (const field of fields) {
+      row[exportHeader(field)] =
+        field.type === 'commute' || field.attribute
+          ? formatFieldValue(house, field)
+          : house[field.field]
+    }
+    row.calculated_score = Math.round(house.calculated_score * 10) / 10
+    for (const [key, value] of Object.entries(
+      subScores(breakdowns.get(house.id))
+    )) {
+      row[`score_${key}`] = value
+    }
+    return row
+  })
+  return Papa.unparse(rows)
+}
+
+export const scoredHousesToJson = (
+  houses: House[],
+  breakdowns: Map<string, ScoreBreakdown>
+) =>
+  JSON.stringify(
+    houses.map((house) => ({
+      ...house,
+      calculated_score: Math.round(house.calculated_score * 10) / 10,
+      sub_scores: subScores(breakdowns.get(house.id))
+    })),
+    null,
+    2
+  )
+
+export const downloadFile = (
+  content: string,
+  fileName: string,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export const exportFileName = (name: string, extension: string) =>
+  `${name}-${new Date().toISOString().slice(0, 10)}.${extension}`
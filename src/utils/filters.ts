@@ -0,0 +1,145 @@
+import { v4 as uuidV4 } from 'uuid'
+import { repository } from './repository'
+import type { House } from '../types/house'
+import type {
+  FilterResult,
+  HouseFilter,
+  MustHave,
+  RangeField,
+  SavedFilter
+} from '../types/filter'
+import { closedStatuses } from './status'
+import { hasLocation, isInsidePolygon } from './geo'
+
+export const emptyFilter: HouseFilter = {
+  ranges: {},
+  mustHaves: [],
+  minGarageSpaces: null,
+  statuses: [],
+  hideClosed: false,
+  cities: [],
+  styles: [],
+  hardBudget: false,
+  hardMustHaves: false,
+  area: null
+}
+
+export const rangeFields: { field: RangeField; label: string }[] = [
+  { field: 'price', label: 'Price' },
+  { field: 'bedrooms', label: 'Beds' },
+  { field: 'bathrooms', label: 'Baths' },
+  { field: 'size', label: 'Size (sqft)' },
+  { field: 'year_built', label: 'Year Built' },
+  { field: 'hoa_fee', label: 'HOA' }
+]
+
+export const mustHaveLabels: Record<MustHave, string> = {
+  walk_in_closet: 'Walk-in Closet',
+  kitchen_island: 'Kitchen Island',
+  low_maintenance_yard: 'Low/No Yard'
+}
+
+const hasFeature = (house: House, mustHave: MustHave) =>
+  mustHave === 'low_maintenance_yard'
+    ? !house.yard_maintenance
+    : house[mustHave] === true
+
+export const evaluateFilter = (
+  house: House,
+  filter: HouseFilter,
+  budgetLimit: number
+): FilterResult => {
+  const overBudget = (house.price || 0) > budgetLimit
+
+  const missing = filter.mustHaves
+    .filter((m) => !hasFeature(house, m))
+    .map((m) => mustHaveLabels[m])
+  const minGarage = filter.minGarageSpaces ?? 0
+  if (minGarage > 0 && (house.garage_spaces || 0) < minGarage) {
+    missing.push(`${minGarage}+ Garage`)
+  }
+
+  const outOfRange = rangeFields.some(({ field }) => {
+    const range = filter.ranges[field]
+    const value = Number(house[field]) || 0
+    return (
+      (range?.min !== null && range?.min !== undefined && value < range.min) ||
+      (range?.max !== null && range?.max !== undefined && value > range.max)
+    )
+  })
+
+  const excluded =
+    outOfRange ||
+    (filter.statuses.length > 0 && !filter.statuses.includes(house.status)) ||
+    (filter.hideClosed && closedStatuses.includes(house.status)) ||
+    (filter.cities.length > 0 && !filter.cities.includes(house.city)) ||
+    (filter.styles.length > 0 && !filter.styles.includes(house.style)) ||
+    (filter.hardBudget && overBudget) ||
+    (filter.hardMustHaves && missing.length > 0) ||
+    (filter.area !== null &&
+      !(hasLocation(house) && isInsidePolygon(house, filter.area)))
+
+  return { excluded, overBudget, missing }
+}
+
+export const countActiveFilters = (filter: HouseFilter) =>
+  Object.values(filter.ranges).filter(
+    (r) => r && (r.min !== null || r.max !== null)
+  ).length +
+  filter.mustHaves.length +
+  (filter.minGarageSpaces ? 1 : 0) +
+  (filter.statuses.length > 0 ? 1 : 0) +
+  (filter.hideClosed ? 1 : 0) +
+  (filter.cities.length > 0 ? 1 : 0) +
+  (filter.styles.length > 0 ? 1 : 0) +
+  (filter.hardBudget ? 1 : 0) +
+  (filter.hardMustHaves ? 1 : 0) +
+  (filter.area ? 1 : 0)
+
+export const createSavedFilter = (
+  name: string,
+  filter: HouseFilter
+): SavedFilter => ({ id: uuidV4(), name, filter })
+
+export const loadSavedFilters = async (householdId: string) => {
+  const { data, error } = await repository.list('saved_filters', householdId, {
+    column: 'name',
+    ascending: true
+  })
+  if (error) {
+    console.error('Error loading saved filters:', error)
+    return []
+  }
+  // Filters saved before listing statuses used a `hideSold` flag.
+  return (
+    (data ?? []) as (SavedFilter & { filter: { hideSold?: boolean } })[]
+  ).map(({ filter: { hideSold, ...filter }, ...saved }) => ({
+    ...saved,
+    filter: {
+      ...emptyFilter,
+      ...filter,
+      hideClosed: filter.hideClosed ?? hideSold ?? false
+    }
+  }))
+}
+
+export const saveSavedFilter = async (
+  householdId: string,
+  saved: SavedFilter
+) => {
+  const { error } = await repository.save('saved_filters', householdId, [saved])
+  if (error) {
+    console.error('Error saving filter:', error)
+    return false
+  }
+  return true
+}
+
+export const deleteSavedFilter = async (householdId: string, id: string) => {
+  const { error } = await repository.remove('saved_filters', householdId, id)
+  if (error) {
+    console.error('Error deleting filter:', error)
+    return false
+  }
+  return true
+}
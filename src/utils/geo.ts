@@ -0,0 +1,94 @@
+import type { LatLng, MapViewport } from '../types/geo'
+
+export const tileSize = 256
+export const minZoom = 2
+export const maxZoom = 18
+
+const worldSize = (zoom: number) => tileSize * Math.pow(2, zoom)
+
+// Web Mercator, the projection used by slippy-map tiles.
+export const project = ({ lat, lng }: LatLng, zoom: number) => {
+  const size = worldSize(zoom)
+  const sin = Math.sin((Math.max(-85, Math.min(85, lat)) * Math.PI) / 180)
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size
+  }
+}
+
+export const unproject = (
+  { x, y }: { x: number; y: number },
+  zoom: number
+): LatLng => {
+  const size = worldSize(zoom)
+  const n = Math.PI - (2 * Math.PI * y) / size
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / size) * 360 - 180
+  }
+}
+
+export const hasLocation = <
+  T extends { lat: number | null; lng: number | null }
+>(
+  point: T | undefined
+): point is T & LatLng =>
+  !!point &&
+  typeof point.lat === 'number' &&
+  typeof point.lng === 'number' &&
+  !isNaN(point.lat) &&
+  !isNaN(point.lng)
+
+export const fitBounds = (
+  points: LatLng[],
+  width: number,
+  height: number,
+  padding = 40
+): MapViewport | null => {
+  if (points.length === 0) return null
+  const lats = points.map((p) => p.lat)
+  const lngs = points.map((p) => p.lng)
+  const southWest = { lat: Math.min(...lats), lng: Math.min(...lngs) }
+  const northEast = { lat: Math.max(...lats), lng: Math.max(...lngs) }
+
+  let zoom = maxZoom
+  while (zoom > minZoom) {
+    const sw = project(southWest, zoom)
+    const ne = project(northEast, zoom)
+    if (
+      ne.x - sw.x <= width - padding * 2 &&
+      sw.y - ne.y <= height - padding * 2
+    ) {
+      break
+    }
+    zoom--
+  }
+
+  const sw = project(southWest, zoom)
+  const ne = project(northEast, zoom)
+  return {
+    center: unproject({ x: (sw.x + ne.x) / 2, y: (sw.y + ne.y) / 2 }, zoom),
+    zoom: Math.min(zoom, 15)
+  }
+}
+
+// Ray casting; the polygon is treated as closed.
+export const isInsidePolygon = (point: LatLng, polygon: LatLng[]) => {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng <
+        ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    ) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Red at 0 through amber to green at 100.
+export const scoreColor = (score: number) =>
+  `hsl(${Math.round(Math.max(0, Math.min(100, score)) * 1.2)}, 70%, 45%)`
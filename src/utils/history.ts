@@ -0,0 +1,122 @@
+import { v4 as uuidV4 } from 'uuid'
+import { repository } from './repository'
+import type { House } from '../types/house'
+import { isHouseStatus, statusLabels } from './status'
+import type {
+  HistorySummary,
+  HistoryValue,
+  HouseEvent,
+  TrackedField
+} from '../types/history'
+
+export const trackedFields: Record<TrackedField, string> = {
+  price: 'Price',
+  status: 'Status',
+  hoa_fee: 'HOA',
+  bedrooms: 'Bedrooms',
+  bathrooms: 'Bathrooms',
+  size: 'Size'
+}
+
+const dayMs = 24 * 60 * 60 * 1000
+
+export const createAddedEvent = (
+  house: House,
+  recordedAt = new Date().toISOString()
+): HouseEvent => ({
+  id: uuidV4(),
+  house_id: house.id,
+  event: 'added',
+  field: 'price',
+  old_value: null,
+  new_value: house.price,
+  recorded_at: recordedAt
+})
+
+export const diffTrackedFields = (
+  before: House,
+  after: House,
+  recordedAt = new Date().toISOString()
+): HouseEvent[] =>
+  (Object.keys(trackedFields) as TrackedField[])
+    .filter((field) => before[field] !== after[field])
+    .map((field) => ({
+      id: uuidV4(),
+      house_id: after.id,
+      event: 'changed',
+      field,
+      old_value: before[field],
+      new_value: after[field],
+      recorded_at: recordedAt
+    }))
+
+export const formatHistoryValue = (
+  field: TrackedField | null,
+  value: HistoryValue
+) => {
+  if (value === null) return 'N/A'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (field === 'status' && isHouseStatus(value)) return statusLabels[value]
+  if (field === 'price' || field === 'hoa_fee')
+    return `$${Number(value).toLocaleString()}`
+  if (field === 'size') return `${Number(value).toLocaleString()} sqft`
+  return String(value)
+}
+
+export const summarizeHistory = (
+  house: House,
+  events: HouseEvent[],
+  now = new Date()
+): HistorySummary => {
+  const sorted = [...events].sort((a, b) =>
+    a.recorded_at.localeCompare(b.recorded_at)
+  )
+  const added = sorted.find((e) => e.event === 'added') ?? sorted[0]
+  const firstPrice = sorted.find((e) => e.field === 'price')
+  const originalPrice = Number(
+    firstPrice?.event === 'added' ? firstPrice.new_value : firstPrice?.old_value
+  )
+
+  return {
+    addedAt: added?.recorded_at ?? null,
+    daysOnList: added
+      ? Math.floor(
+          (now.getTime() - new Date(added.recorded_at).getTime()) / dayMs
+        )
+      : null,
+    priceChangePercent:
+      originalPrice > 0 && house.price !== originalPrice
+        ? ((house.price - originalPrice) / originalPrice) * 100
+        : null,
+    events: sorted.reverse()
+  }
+}
+
+export const loadHouseHistory = async (householdId: string) => {
+  const { data, error } = await repository.list<HouseEvent>(
+    'house_history',
+    householdId,
+    {
+      column: 'recorded_at',
+      ascending: true
+    }
+  )
+  if (error) {
+    console.error('Error loading house history:', error)
+    return []
+  }
+  return (data ?? []) as HouseEvent[]
+}
+
+export const saveHouseEvents = async (
+  householdId: string,
+  events: HouseEvent[]
+) => {
+  if (events.length === 0) return true
+  const { error } = await repository.save('house_history', householdId, events)
+  if (error) {
+    console.error('Error saving house history:', error)
+    return false
+  }
+  return true
+}
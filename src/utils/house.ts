@@ -0,0 +1,29 @@
+import { v4 as uuidV4 } from 'uuid'
+import type { House } from '../types/house'
+import { emptyTourNotes } from './tour'
+
+export const createEmptyHouse = (): House => ({
+  id: uuidV4(),
+  address: '',
+  city: '',
+  price: 0,
+  bedrooms: 0,
+  bathrooms: 0,
+  size: 0,
+  style: '',
+  year_built: 0,
+  garage_spaces: 0,
+  walk_in_closet: false,
+  kitchen_island: false,
+  yard_maintenance: false,
+  status: 'interested',
+  hoa_fee: 0,
+  commutes: [],
+  calculated_score: 0,
+  thumbnail_url: '',
+  lat: null,
+  lng: null,
+  tour_notes: emptyTourNotes,
+  custom: {},
+  deleted_at: null
+})
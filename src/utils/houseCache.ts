@@ -0,0 +1,48 @@
+import type { CachedHouses, HouseCache } from '../types/sync'
+import { runRequest } from './indexedDb'
+
+const indexedDbHouseCache: HouseCache = {
+  load: async (householdId) => {
+    try {
+      const data = await runRequest<CachedHouses | undefined>(
+        'households',
+        'readonly',
+        (store) => store.get(householdId)
+      )
+      return data ?? null
+    } catch (error) {
+      console.error('Error loading cached houses:', error)
+      return null
+    }
+  },
+  save: async (householdId, data) => {
+    try {
+      await runRequest('households', 'readwrite', (store) =>
+        store.put(data, householdId)
+      )
+      return true
+    } catch (error) {
+      console.error('Error caching houses:', error)
+      return false
+    }
+  }
+}
+
+// Keeps the cache in a Map for browsers without IndexedDB, so it only lasts
+// as long as the page.
+const createMemoryHouseCache = (): HouseCache => {
+  const entries = new Map<string, CachedHouses>()
+  return {
+    load: async (householdId) =>
+      structuredClone(entries.get(householdId) ?? null),
+    save: async (householdId, data) => {
+      entries.set(householdId, structuredClone(data))
+      return true
+    }
+  }
+}
+
+export const houseCache =
+  typeof indexedDB === 'undefined'
+    ? createMemoryHouseCache()
+    : indexedDbHouseCache
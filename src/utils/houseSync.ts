@@ -0,0 +1,474 @@
+import { v4 as uuidV4 } from 'uuid'
+import type { HouseEvent } from '../types/history'
+import type { House } from '../types/house'
+import type {
+  FailedWrite,
+  HouseCache,
+  HouseClient,
+  PendingWrite,
+  QueryError,
+  SyncState,
+  WriteOperation,
+  WriteStatus
+} from '../types/sync'
+
+// Postgres jsonb does not keep key order, so compare values key-sorted.
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  stableStringify(a) === stableStringify(b)
+
+export const changedFields = (
+  from: House,
+  to: House,
+  keys = [...new Set([...Object.keys(from), ...Object.keys(to)])]
+) =>
+  keys.filter(
+    (key) => !sameValue(from[key as keyof House], to[key as keyof House])
+  )
+
+// Three-way merge: server changes win where only the server changed a field,
+// local changes win where only we did, and a field both sides changed to
+// different values is a conflict.
+export const mergeHouse = (base: House, mine: House, theirs: House) => {
+  const merged: Record<string, unknown> = { ...theirs }
+  const conflicts: string[] = []
+  for (const key of changedFields(base, mine)) {
+    const field = key as keyof House
+    if (
+      !sameValue(base[field], theirs[field]) &&
+      !sameValue(mine[field], theirs[field])
+    ) {
+      conflicts.push(key)
+    } else {
+      merged[key] = mine[field]
+    }
+  }
+  return { merged: merged as unknown as House, conflicts }
+}
+
+export const createWrite = (
+  operation: WriteOperation,
+  house: House | null,
+  base: House | null,
+  events: HouseEvent[] = []
+): PendingWrite => ({
+  id: uuidV4(),
+  operation,
+  house_id: (house ?? base)!.id,
+  house,
+  base,
+  events,
+  queued_at: new Date().toISOString()
+})
+
+const joinEvents = (earlier: PendingWrite, write: PendingWrite) => [
+  ...(earlier.events ?? []),
+  ...(write.events ?? [])
+]
+
+// Keeps at most one queued write per house, except for a write already in
+// flight, which must not change under the request sending it.
+export const enqueueWrite = (
+  queue: PendingWrite[],
+  write: PendingWrite,
+  inFlightId: string | null = null
+) => {
+  const earlier = queue.find(
+    (w) => w.house_id === write.house_id && w.id !== inFlightId
+  )
+  if (!earlier) return [...queue, write]
+  if (earlier.operation === 'insert') {
+    // The server has never seen this house, so fold the change in.
+    return write.operation === 'delete'
+      ? queue.filter((w) => w !== earlier)
+      : queue.map((w) =>
+          w === earlier
+            ? { ...w, house: write.house, events: joinEvents(w, write) }
+            : w
+        )
+  }
+  const operation =
+    earlier.operation === 'delete' && write.operation === 'insert'
+      ? 'update'
+      : write.operation
+  return queue.map((w) =>
+    w === earlier
+      ? { ...w, operation, house: write.house, events: joinEvents(w, write) }
+      : w
+  )
+}
+
+export const applyWrites = (houses: House[], writes: PendingWrite[]) =>
+  writes.reduce(
+    (result, write) =>
+      write.house
+        ? result.some((h) => h.id === write.house_id)
+          ? result.map((h) => (h.id === write.house_id ? write.house! : h))
+          : [...result, write.house]
+        : result.filter((h) => h.id !== write.house_id),
+    houses
+  )
+
+export const isNetworkError = (error: QueryError) =>
+  /failed to fetch|networkerror|load failed|network request failed/i.test(
+    error.message
+  )
+
+type Outcome =
+  | { kind: 'saved'; house: House | null }
+  | { kind: 'offline' }
+  | { kind: 'failed'; write: FailedWrite }
+
+export interface HouseStore {
+  // Resolves with the houses as loaded, cached or remote.
+  load: () => Promise<House[]>
+  // The local copy right now, including writes still queued.
+  get: (id: string) => House | undefined
+  // Resolve once the write has been sent, or kept for later when it can't be.
+  insert: (house: House, events?: HouseEvent[]) => Promise<WriteStatus>
+  update: (house: House, events?: HouseEvent[]) => Promise<WriteStatus>
+  remove: (id: string) => Promise<void>
+  flush: () => Promise<void>
+  // Re-queues a failed write; for a conflict this keeps the local values.
+  retry: (writeId: string) => Promise<void>
+  // Drops a failed write and keeps the server copy.
+  discard: (writeId: string) => Promise<void>
+  // Merges a change made elsewhere. Resolves with the local copy it replaced,
+  // or undefined when the change was ignored: a queued write for the same
+  // house reconciles with the server on replay instead.
+  applyRemote: (
+    id: string,
+    house: House | null
+  ) => Promise<{ previous: House | null } | undefined>
+  // Stops reporting changes, caching and replaying writes. A write already in
+  // flight still lands; the queue it leaves behind replays from the cache.
+  dispose: () => void
+}
+
+export interface HouseStoreOptions {
+  client: HouseClient
+  cache: HouseCache
+  householdId: string
+  isOnline?: () => boolean
+  onChange: (houses: House[], sync: SyncState) => void
+  // Records the history queued with a write once the write is saved.
+  saveEvents?: (events: HouseEvent[]) => Promise<boolean>
+}
+
+export const createHouseStore = ({
+  client,
+  cache,
+  householdId,
+  isOnline = () => navigator.onLine,
+  onChange,
+  saveEvents = async () => true
+}: HouseStoreOptions): HouseStore => {
+  let houses: House[] = []
+  let sync: SyncState = {
+    status: isOnline() ? 'syncing' : 'offline',
+    pending: [],
+    failed: [],
+    last_synced_at: null
+  }
+  let flushing = false
+  let disposed = false
+  let inFlightId: string | null = null
+
+  const table = () => client.from('houses')
+
+  const notify = () => {
+    if (!disposed) onChange(houses, sync)
+  }
+
+  const commit = async () => {
+    if (disposed) return
+    notify()
+    await cache.save(householdId, {
+      houses,
+      pending: sync.pending,
+      failed: sync.failed,
+      last_synced_at: sync.last_synced_at
+    })
+  }
+
+  const setHouse = (id: string, house: House | null) => {
+    houses = house
+      ? houses.some((h) => h.id === id)
+        ? houses.map((h) => (h.id === id ? house : h))
+        : [...houses, house]
+      : houses.filter((h) => h.id !== id)
+  }
+
+  const statusOf = (houseId: string): WriteStatus =>
+    sync.pending.some((w) => w.house_id === houseId)
+      ? 'queued'
+      : sync.failed.some((w) => w.house_id === houseId)
+        ? 'failed'
+        : 'saved'
+
+  const queue = async (write: PendingWrite): Promise<WriteStatus> => {
+    if (disposed) return 'failed'
+    sync = {
+      ...sync,
+      pending: enqueueWrite(sync.pending, write, inFlightId)
+    }
+    setHouse(write.house_id, write.house)
+    await commit()
+    await flush()
+    return statusOf(write.house_id)
+  }
+
+  const fail = (
+    write: PendingWrite,
+    reason: FailedWrite['reason'],
+    message: string,
+    remote: House | null,
+    conflicts: string[] = []
+  ): Outcome => ({
+    kind: 'failed',
+    write: { ...write, reason, message, conflicts, remote }
+  })
+
+  const rejected = (
+    write: PendingWrite,
+    error: QueryError,
+    remote: House | null
+  ): Outcome =>
+    isNetworkError(error) || !isOnline()
+      ? { kind: 'offline' }
+      : fail(write, 'rejected', error.message, remote)
+
+  const replay = async (write: PendingWrite): Promise<Outcome> => {
+    const current = await table()
+      .select('*')
+      .eq('household_id', householdId)
+      .eq('id', write.house_id)
+    if (current.error) return rejected(write, current.error, null)
+    const remote = current.data?.[0] ?? null
+
+    if (write.operation === 'delete') {
+      if (!remote) return { kind: 'saved', house: null }
+      const conflicts = write.base ? changedFields(write.base, remote) : []
+      if (conflicts.length > 0) {
+        return fail(
+          write,
+          'conflict',
+          'Changed elsewhere after you deleted it',
+          remote,
+          conflicts
+        )
+      }
+      const { error } = await table()
+        .delete()
+        .eq('household_id', householdId)
+        .eq('id', write.house_id)
+      return error
+        ? rejected(write, error, remote)
+        : { kind: 'saved', house: null }
+    }
+
+    const house = write.house!
+    if (write.operation === 'insert') {
+      if (remote) {
+        const conflicts = changedFields(house, remote, Object.keys(house))
+        return conflicts.length === 0
+          ? { kind: 'saved', house: remote }
+          : fail(
+              write,
+              'conflict',
+              'Already added elsewhere',
+              remote,
+              conflicts
+            )
+      }
+      const { data, error } = await table()
+        .insert({ ...house, household_id: householdId })
+        .select('*')
+      return error
+        ? rejected(write, error, null)
+        : { kind: 'saved', house: data?.[0] ?? house }
+    }
+
+    if (!remote) {
+      return fail(write, 'conflict', 'Deleted elsewhere', null)
+    }
+    const { merged, conflicts } = mergeHouse(
+      write.base ?? remote,
+      house,
+      remote
+    )
+    if (conflicts.length > 0) {
+      return fail(write, 'conflict', 'Changed elsewhere', remote, conflicts)
+    }
+    const { data, error } = await table()
+      .update(merged)
+      .eq('household_id', householdId)
+      .eq('id', write.house_id)
+      .select('*')
+    return error
+      ? rejected(write, error, remote)
+      : { kind: 'saved', house: data?.[0] ?? merged }
+  }
+
+  const flush = async () => {
+    if (flushing || disposed) return
+    if (!isOnline()) {
+      sync = { ...sync, status: 'offline' }
+      notify()
+      return
+    }
+    flushing = true
+    let offline = false
+    if (sync.pending.length > 0) {
+      sync = { ...sync, status: 'syncing' }
+      notify()
+    }
+    while (sync.pending.length > 0 && !disposed) {
+      const write = sync.pending[0]
+      inFlightId = write.id
+      const outcome = await replay(write)
+      inFlightId = null
+      if (outcome.kind === 'offline') {
+        offline = true
+        break
+      }
+      const pending = sync.pending.filter((w) => w.id !== write.id)
+      const superseded = pending.some((w) => w.house_id === write.house_id)
+      if (outcome.kind === 'saved') {
+        if (!superseded) setHouse(write.house_id, outcome.house)
+        sync = { ...sync, pending }
+        if (write.events && write.events.length > 0) {
+          await saveEvents(write.events)
+        }
+      } else {
+        // Show the server copy until the user decides what to do.
+        if (!superseded) setHouse(write.house_id, outcome.write.remote)
+        sync = { ...sync, pending, failed: [...sync.failed, outcome.write] }
+      }
+      await commit()
+    }
+    flushing = false
+    if (disposed) return
+    sync = {
+      ...sync,
+      status: offline ? 'offline' : sync.failed.length > 0 ? 'error' : 'synced',
+      last_synced_at: offline ? sync.last_synced_at : new Date().toISOString()
+    }
+    await commit()
+  }
+
+  const takeFailed = (writeId: string) => {
+    const write = sync.failed.find((w) => w.id === writeId)
+    sync = { ...sync, failed: sync.failed.filter((w) => w.id !== writeId) }
+    return write
+  }
+
+  return {
+    load: async () => {
+      const cached = await cache.load(householdId)
+      if (disposed) return []
+      if (cached) {
+        const { houses: cachedHouses, ...state } = cached
+        houses = cachedHouses
+        sync = { ...sync, ...state }
+        notify()
+      }
+      if (!isOnline()) {
+        sync = { ...sync, status: 'offline' }
+        notify()
+        return houses
+      }
+      const { data, error } = await table()
+        .select('*')
+        .eq('household_id', householdId)
+      if (disposed) return []
+      if (error) {
+        sync = { ...sync, status: isNetworkError(error) ? 'offline' : 'error' }
+        notify()
+        return houses
+      }
+      houses = applyWrites(data ?? [], sync.pending)
+      await commit()
+      await flush()
+      return houses
+    },
+    get: (id) => houses.find((h) => h.id === id),
+    insert: (house, events) =>
+      queue(createWrite('insert', house, null, events)),
+    update: (house, events) =>
+      queue(
+        createWrite(
+          'update',
+          house,
+          houses.find((h) => h.id === house.id) ?? null,
+          events
+        )
+      ),
+    remove: async (id) => {
+      const house = houses.find((h) => h.id === id)
+      if (house) await queue(createWrite('delete', null, house))
+    },
+    flush,
+    retry: async (writeId) => {
+      const write = takeFailed(writeId)
+      if (!write) return
+      if (write.reason === 'rejected') {
+        await queue(
+          createWrite(write.operation, write.house, write.base, write.events)
+        )
+      } else if (write.operation === 'delete') {
+        if (write.remote) await queue(createWrite('delete', null, write.remote))
+        else await commit()
+      } else if (!write.remote) {
+        await queue(createWrite('insert', write.house, null, write.events))
+      } else {
+        const { merged, conflicts } = mergeHouse(
+          write.base ?? write.remote,
+          write.house!,
+          write.remote
+        )
+        const house = { ...merged }
+        for (const key of conflicts) {
+          Object.assign(house, { [key]: write.house![key as keyof House] })
+        }
+        await queue(createWrite('update', house, write.remote, write.events))
+      }
+    },
+    discard: async (writeId) => {
+      if (takeFailed(writeId)) await commit()
+    },
+    applyRemote: async (id, house) => {
+      if (disposed) return undefined
+      if (sync.pending.some((w) => w.house_id === id)) return undefined
+      const previous = houses.find((h) => h.id === id) ?? null
+      if (
+        previous && house
+          ? changedFields(previous, house).length === 0
+          : previous === house
+      ) {
+        return undefined
+      }
+      setHouse(id, house)
+      await commit()
+      return { previous }
+    },
+    dispose: () => {
+      disposed = true
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { getSupabase } from './supabase'
+import { runRequest } from './indexedDb'
+import type {
+  Household,
+  HouseholdInvite,
+  HouseholdLookup,
+  HouseholdMember
+} from '../types/household'
+
+const inviteParam = 'invite'
+
+// Members of several households see the one they joined last, so accepting
+// an invite moves a partner into the household that invited them.
+export const loadHousehold = async (
+  userId: string
+): Promise<HouseholdLookup> => {
+  const { data, error } = await getSupabase()
+    .from('household_members')
+    .select('households (id, name)')
+    .eq('user_id', userId)
+    .order('joined_at', { ascending: false })
+    .limit(1)
+  if (error) {
+    console.error('Error loading household:', error)
+    return { kind: 'error' }
+  }
+  const households = data?.[0]?.households as
+    Household | Household[] | null | undefined
+  const household = Array.isArray(households) ? households[0] : households
+  return household ? { kind: 'found', household } : { kind: 'none' }
+}
+
+// The household last loaded for a user, kept beside the cached houses so the
+// app still opens when Supabase can't be reached.
+const memberKey = (userId: string) => `member:${userId}`
+
+export const loadCachedHousehold = async (userId: string) => {
+  try {
+    const data = await runRequest<Household | undefined>(
+      'households',
+      'readonly',
+      (store) => store.get(memberKey(userId))
+    )
+    return data ?? null
+  } catch (error) {
+    console.error('Error loading cached household:', error)
+    return null
+  }
+}
+
+export const cacheHousehold = async (userId: string, household: Household) => {
+  try {
+    await runRequest('households', 'readwrite', (store) =>
+      store.put(household, memberKey(userId))
+    )
+    return true
+  } catch (error) {
+    console.error('Error caching household:', error)
+    return false
+  }
+}
+
+export const loadHouseholdMembers = async (householdId: string) => {
+  const { data, error } = await getSupabase()
+    .from('household_members')
+    .select('user_id, email')
+    .eq('household_id', householdId)
+  if (error) {
+    console.error('Error loading household members:', error)
+    return []
+  }
+  return (data ?? []) as HouseholdMember[]
+}
+
+export const createHousehold = async (name: string) => {
+  const { data, error } = await getSupabase().rpc('create_household', {
+    household_name: name
+  })
+  if (error) {
+    console.error('Error creating household:', error)
+    return null
+  }
+  return data as string
+}
+
+export const createInvite = async (householdId: string, userId: string) => {
+  const { data, error } = await getSupabase()
+    .from('household_invites')
+    .insert({ household_id: householdId, created_by: userId })
+    .select('token, household_id, expires_at')
+    .single()
+  if (error) {
+    console.error('Error creating invite:', error)
+    return null
+  }
+  return data as HouseholdInvite
+}
+
+export const acceptInvite = async (token: string) => {
+  const { data, error } = await getSupabase().rpc('accept_household_invite', {
+    invite_token: token
+  })
+  if (error) {
+    console.error('Error accepting invite:', error)
+    return null
+  }
+  return data as string
+}
+
+export const inviteLink = (invite: HouseholdInvite) => {
+  const url = new URL(window.location.origin + window.location.pathname)
+  url.searchParams.set(inviteParam, invite.token)
+  return url.toString()
+}
+
+export const pendingInviteToken = () =>
+  new URLSearchParams(window.location.search).get(inviteParam)
+
+export const clearPendingInvite = () => {
+  const url = new URL(window.location.href)
+  url.searchParams.delete(inviteParam)
+  window.history.replaceState(null, '', url.toString())
+}
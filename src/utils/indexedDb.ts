@@ -0,0 +1,40 @@
+const databaseName = 'house-rater'
+
+// 'households' caches Supabase data per household, plus each user's last
+// household; 'tables' holds the rows of the browser-local repository.
+export type ObjectStoreName = 'households' | 'tables'
+
+const storeNames: ObjectStoreName[] = ['households', 'tables']
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(databaseName, 2)
+    request.onupgradeneeded = () => {
+      for (const name of storeNames) {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name)
+        }
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+export const runRequest = async <T>(
+  storeName: ObjectStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(
+        db.transaction(storeName, mode).objectStore(storeName)
+      )
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
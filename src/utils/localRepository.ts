@@ -0,0 +1,147 @@
+import type { HouseRepository, RepositoryTable } from '../types/repository'
+import type { HouseholdSession } from '../types/household'
+import type { QueryError } from '../types/sync'
+import { runRequest } from './indexedDb'
+import { createRowClient } from './rowClient'
+import type { HouseRow } from './rowClient'
+
+type LocalTable = RepositoryTable | 'houses'
+type LocalRow = { id: string; household_id: string } & Record<string, unknown>
+
+const localTables: LocalTable[] = [
+  'houses',
+  'weight_profiles',
+  'saved_filters',
+  'destinations',
+  'custom_attributes',
+  'house_history'
+]
+
+export const localSession: HouseholdSession = {
+  userId: 'local',
+  email: 'Saved in this browser',
+  household: { id: 'local', name: 'Our household' }
+}
+
+const readTable = async <T>(table: LocalTable) =>
+  (await runRequest<T[] | undefined>('tables', 'readonly', (store) =>
+    store.get(table)
+  )) ?? []
+
+const writeTable = async (table: LocalTable, rows: unknown[]) => {
+  await runRequest('tables', 'readwrite', (store) => store.put(rows, table))
+}
+
+// Every change reads a whole table and writes it back, so changes run one at
+// a time.
+let previous: Promise<unknown> = Promise.resolve()
+const serialize = <T>(change: () => Promise<T>) => {
+  const result = previous.then(change)
+  previous = result.catch(() => undefined)
+  return result
+}
+
+const toError = (error: unknown): QueryError => ({
+  message: error instanceof Error ? error.message : String(error)
+})
+
+// Sorts like Postgres: nulls last ascending, first descending.
+const compareValues = (a: unknown, b: unknown) =>
+  a === b ? 0 : a == null ? 1 : b == null ? -1 : a < b ? -1 : 1
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+
+export const localRepository: HouseRepository = {
+  source: 'local',
+  isOnline: () => true,
+  houses: createRowClient({
+    read: () => readTable<HouseRow>('houses'),
+    write: (rows) => serialize(() => writeTable('houses', rows))
+  }),
+  list: async <T>(
+    table: RepositoryTable,
+    householdId: string,
+    order: { column: string; ascending: boolean }
+  ) => {
+    try {
+      const rows = (await readTable<LocalRow & T>(table))
+        .filter((row) => row.household_id === householdId)
+        .sort(
+          (a, b) =>
+            compareValues(a[order.column], b[order.column]) *
+            (order.ascending ? 1 : -1)
+        )
+      return { data: rows, error: null }
+    } catch (error) {
+      return { data: null, error: toError(error) }
+    }
+  },
+  save: (table, householdId, rows) =>
+    serialize(async () => {
+      try {
+        const saved = rows.map((row) => ({ ...row, household_id: householdId }))
+        const kept = (await readTable<LocalRow>(table)).filter(
+          (row) =>
+            !saved.some(
+              (s) => s.id === row.id && s.household_id === row.household_id
+            )
+        )
+        await writeTable(table, [...kept, ...saved])
+        return { error: null }
+      } catch (error) {
+        return { error: toError(error) }
+      }
+    }),
+  remove: (table, householdId, id) =>
+    serialize(async () => {
+      try {
+        const rows = await readTable<LocalRow>(table)
+        await writeTable(
+          table,
+          rows.filter((r) => r.household_id !== householdId || r.id !== id)
+        )
+        return { error: null }
+      } catch (error) {
+        return { error: toError(error) }
+      }
+    }),
+  // Nobody else writes to this browser's storage.
+  subscribe: () => () => undefined,
+  // Photos live inline as data URLs, since there is no storage bucket.
+  uploadPhoto: async (_path, file) => {
+    try {
+      return { url: await readAsDataUrl(file), error: null }
+    } catch (error) {
+      return { url: null, error: toError(error) }
+    }
+  },
+  deletePhoto: async () => ({ error: null }),
+  // The data URLs saved with each photo never expire.
+  photoUrls: async () => ({ urls: {}, error: null })
+}
+
+export const countLocalHouses = async () => {
+  try {
+    return (await readTable('houses')).length
+  } catch (error) {
+    console.error('Error reading local houses:', error)
+    return 0
+  }
+}
+
+export const clearLocalData = () =>
+  serialize(async () => {
+    try {
+      for (const table of localTables) await writeTable(table, [])
+      return true
+    } catch (error) {
+      console.error('Error clearing local data:', error)
+      return false
+    }
+  })
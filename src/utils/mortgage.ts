@@ -0,0 +1,58 @@
+import type { FinanceSettings, MonthlyCost } from '../types/finance'
+import type { House } from '../types/house'
+
+export const defaultFinanceSettings: FinanceSettings = {
+  down_payment_percent: 20,
+  interest_rate: 6.5,
+  term_years: 30,
+  property_tax_rate: 1.1,
+  insurance_per_year: 1500,
+  pmi_rate: 0.5,
+  min_monthly_cost: 2500,
+  max_monthly_cost: 5000,
+  score_by_monthly_cost: false
+}
+
+export const monthlyPayment = (
+  principal: number,
+  annualRate: number,
+  termYears: number
+) => {
+  const payments = termYears * 12
+  if (principal <= 0 || payments <= 0) return 0
+  const rate = annualRate / 100 / 12
+  if (rate === 0) return principal / payments
+  return (principal * rate) / (1 - Math.pow(1 + rate, -payments))
+}
+
+export const monthlyCost = (
+  house: House,
+  settings: FinanceSettings
+): MonthlyCost => {
+  const price = house.price || 0
+  const loan = price * (1 - settings.down_payment_percent / 100)
+  const principalAndInterest = monthlyPayment(
+    loan,
+    settings.interest_rate,
+    settings.term_years
+  )
+  const propertyTax = (price * settings.property_tax_rate) / 100 / 12
+  const insurance = settings.insurance_per_year / 12
+  const pmi =
+    settings.down_payment_percent < 20
+      ? (loan * settings.pmi_rate) / 100 / 12
+      : 0
+  const hoa = house.hoa_fee || 0
+
+  return {
+    principalAndInterest,
+    propertyTax,
+    insurance,
+    pmi,
+    hoa,
+    total: principalAndInterest + propertyTax + insurance + pmi + hoa
+  }
+}
+
+export const formatMonthly = (value: number) =>
+  `$${Math.round(value).toLocaleString()}/mo`
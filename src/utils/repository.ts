@@ -0,0 +1,15 @@
+import type { HouseRepository } from '../types/repository'
+import { isSupabaseConfigured } from './supabase'
+import { supabaseRepository } from './supabaseRepository'
+import { localRepository } from './localRepository'
+
+const repositories: Record<string, HouseRepository> = {
+  supabase: supabaseRepository,
+  local: localRepository
+}
+
+// VITE_DATA_SOURCE picks the backend; without it the app uses Supabase when a
+// project is configured and this browser otherwise.
+export const repository =
+  repositories[import.meta.env.VITE_DATA_SOURCE ?? ''] ??
+  (isSupabaseConfigured ? supabaseRepository : localRepository)
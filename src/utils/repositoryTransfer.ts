@@ -0,0 +1,144 @@
+import type { House } from '../types/house'
+import type {
+  HouseRepository,
+  RepositoryOrder,
+  RepositoryTable
+} from '../types/repository'
+import type { TourPhoto } from '../types/tour'
+import type { WeightProfile } from '../types/weightProfile'
+import { tourPhotoPath } from './tourPhotos'
+import { isUntouchedPreset } from './weightProfiles'
+
+const transferTables: { table: RepositoryTable; order: RepositoryOrder }[] = [
+  {
+    table: 'weight_profiles',
+    order: { column: 'last_used_at', ascending: true }
+  },
+  { table: 'saved_filters', order: { column: 'name', ascending: true } },
+  { table: 'destinations', order: { column: 'position', ascending: true } },
+  {
+    table: 'custom_attributes',
+    order: { column: 'position', ascending: true }
+  },
+  { table: 'house_history', order: { column: 'recorded_at', ascending: true } }
+]
+
+// Browser-local photos are inline data URLs; upload them to the target
+// instead of copying megabytes into the house row. Resolves with null if an
+// upload failed.
+const transferPhotos = async (
+  house: House,
+  to: HouseRepository,
+  toHouseholdId: string
+) => {
+  const tour = house.tour_notes
+  if (!tour?.photos.some((p) => p.url.startsWith('data:'))) return house
+  const photos: TourPhoto[] = []
+  for (const photo of tour.photos) {
+    if (!photo.url.startsWith('data:')) {
+      photos.push(photo)
+      continue
+    }
+    const blob = await (await fetch(photo.url)).blob()
+    const path = tourPhotoPath(
+      toHouseholdId,
+      house.id,
+      blob.type.split('/')[1] ?? 'jpg'
+    )
+    const { url, error } = await to.uploadPhoto(
+      path,
+      new File([blob], path.split('/').pop() ?? path, { type: blob.type })
+    )
+    if (error || !url) {
+      console.error('Error transferring photo:', error)
+      return null
+    }
+    photos.push({ ...photo, path, url })
+  }
+  return { ...house, tour_notes: { ...tour, photos } }
+}
+
+// A new household is seeded with the presets, so when the source brings its
+// own profiles the untouched seeds would only be duplicates.
+const removeSeededProfiles = async (
+  to: HouseRepository,
+  toHouseholdId: string
+) => {
+  const { data, error } = await to.list<WeightProfile>(
+    'weight_profiles',
+    toHouseholdId,
+    { column: 'last_used_at', ascending: true }
+  )
+  if (error) return error
+  for (const profile of (data ?? []).filter(isUntouchedPreset)) {
+    const removed = await to.remove(
+      'weight_profiles',
+      toHouseholdId,
+      profile.id
+    )
+    if (removed.error) return removed.error
+  }
+  return null
+}
+
+// Copies one household's data between repositories. Houses already in the
+// target are left alone; everything else is saved over by id. Resolves with
+// the number of houses copied, or null if anything failed.
+export const transferHousehold = async (
+  from: HouseRepository,
+  fromHouseholdId: string,
+  to: HouseRepository,
+  toHouseholdId: string
+) => {
+  const source = await from.houses
+    .from('houses')
+    .select('*')
+    .eq('household_id', fromHouseholdId)
+  const target = await to.houses
+    .from('houses')
+    .select('*')
+    .eq('household_id', toHouseholdId)
+  if (source.error || target.error) {
+    console.error(
+      'Error reading houses to transfer:',
+      source.error ?? target.error
+    )
+    return null
+  }
+  const houses = (source.data ?? []).filter(
+    (house) => !(target.data ?? []).some((h) => h.id === house.id)
+  )
+  for (const house of houses) {
+    const copy = await transferPhotos(house, to, toHouseholdId)
+    if (!copy) return null
+    const { error } = await to.houses
+      .from('houses')
+      .insert({ ...copy, household_id: toHouseholdId })
+    if (error) {
+      console.error('Error transferring house:', error)
+      return null
+    }
+  }
+
+  for (const { table, order } of transferTables) {
+    const { data, error } = await from.list<{ id: string }>(
+      table,
+      fromHouseholdId,
+      order
+    )
+    const rows = data ?? []
+    const failure =
+      error ??
+      (table === 'weight_profiles' && rows.length > 0
+        ? await removeSeededProfiles(to, toHouseholdId)
+        : null) ??
+      (rows.length > 0
+        ? (await to.save(table, toHouseholdId, rows)).error
+        : null)
+    if (failure) {
+      console.error(`Error transferring ${table}:`, failure)
+      return null
+    }
+  }
+  return houses.length
+}
@@ -0,0 +1,96 @@
+import type { House } from '../types/house'
+import type { HouseClient, HouseQuery, QueryResult } from '../types/sync'
+
+export type HouseRow = House & { household_id: string }
+
+export interface RowStore {
+  read: () => Promise<HouseRow[]>
+  write: (rows: HouseRow[]) => Promise<void>
+}
+
+// Answers the queries the house sync layer makes from a plain array of rows,
+// read from and written back to `store` around every query.
+export const createRowClient = (store: RowStore): HouseClient => {
+  // Queries run one at a time so a read and its write-back never interleave
+  // with another query's.
+  let previous: Promise<unknown> = Promise.resolve()
+
+  const matches = (rows: HouseRow[], filters: [string, string][]) =>
+    rows.filter((row) =>
+      filters.every(
+        ([column, value]) => String(row[column as keyof HouseRow]) === value
+      )
+    )
+
+  const query = (
+    execute: (
+      rows: HouseRow[],
+      matching: HouseRow[]
+    ) => { rows?: HouseRow[]; result: HouseRow[] },
+    returning = false
+  ) => {
+    const filters: [string, string][] = []
+    const builder: HouseQuery = {
+      eq: (column, value) => {
+        filters.push([column, value])
+        return builder
+      },
+      select: () => {
+        returning = true
+        return builder
+      },
+      then: (resolve, reject) => {
+        const run = async (): Promise<QueryResult> => {
+          try {
+            const rows = await store.read()
+            const { rows: next, result } = execute(rows, matches(rows, filters))
+            if (next) await store.write(next)
+            return {
+              data: returning ? structuredClone(result) : null,
+              error: null
+            }
+          } catch (error) {
+            return { data: null, error: error as QueryResult['error'] }
+          }
+        }
+        const result = previous.then(run)
+        previous = result.catch(() => undefined)
+        return result.then(resolve, reject)
+      }
+    }
+    return builder
+  }
+
+  return {
+    from: () => ({
+      select: () => query((_, matching) => ({ result: matching }), true),
+      insert: (row) =>
+        query((rows) => {
+          if (rows.some((r) => r.id === row.id)) {
+            throw {
+              message: 'duplicate key value violates unique constraint',
+              code: '23505'
+            }
+          }
+          const inserted = structuredClone(row)
+          return { rows: [...rows, inserted], result: [inserted] }
+        }),
+      // Like the household policies, an update never moves a row to another
+      // household.
+      update: (patch) =>
+        query((rows, matching) => {
+          matching.forEach((r) =>
+            Object.assign(r, structuredClone(patch), {
+              household_id: r.household_id
+            })
+          )
+          return { rows, result: matching }
+        }),
+      delete: () =>
+        query((rows, matching) => ({
+          rows: rows.filter((r) => !matching.includes(r)),
+          result: matching
+        }))
+    })
+  }
+}
@@ -0,0 +1,339 @@
+import type { House } from '../types/house'
+import type {
+  CriterionDefinition,
+  ScoreBreakdown,
+  ScoreCurve,
+  Weights
+} from '../types/scoring'
+import type { Destination } from '../types/commute'
+import type { FinanceSettings } from '../types/finance'
+import { formatMonthly, monthlyCost } from './mortgage'
+import { commuteMinutes, findCommute, formatCommute } from './commute'
+import type { SubjectiveRating } from '../types/tour'
+import { subjectiveRatings } from './tour'
+import type { CustomAttribute } from '../types/customAttribute'
+import {
+  customAttributeKey,
+  isScorable,
+  readCustomValue
+} from './customAttributes'
+
+export const defaultCriteria: CriterionDefinition[] = [
+  {
+    key: 'garageSpaces',
+    label: 'Garage Spaces',
+    field: 'garage_spaces',
+    fallback: 0,
+    curve: {
+      type: 'step',
+      direction: 'higher',
+      breakpoints: [
+        { at: 2, score: 100 },
+        { at: 1, score: 50, exact: true }
+      ],
+      otherwise: 0
+    }
+  },
+  {
+    key: 'walkInCloset',
+    label: 'Walk-in Closet',
+    field: 'walk_in_closet',
+    curve: { type: 'boolean', prefer: true }
+  },
+  {
+    key: 'kitchenIsland',
+    label: 'Kitchen Island',
+    field: 'kitchen_island',
+    curve: { type: 'boolean', prefer: true }
+  },
+  {
+    key: 'distance',
+    label: 'Distance',
+    field: 'commutes',
+    fallback: 50,
+    curve: { type: 'linear', min: 0, max: 50, direction: 'lower' }
+  },
+  {
+    key: 'yardMaintenance',
+    label: 'Yard Maintenance',
+    field: 'yard_maintenance',
+    curve: { type: 'boolean', prefer: false }
+  },
+  {
+    key: 'hoaFees',
+    label: 'HOA Fees',
+    field: 'hoa_fee',
+    fallback: 0,
+    curve: { type: 'linear', min: 0, max: 500, direction: 'lower' }
+  },
+  {
+    key: 'size',
+    label: 'Size',
+    field: 'size',
+    fallback: 1500,
+    curve: { type: 'linear', min: 1000, max: 3500, direction: 'higher' }
+  },
+  {
+    key: 'yearBuilt',
+    label: 'Year Built',
+    field: 'year_built',
+    fallback: 1950,
+    curve: { type: 'linear', min: 1920, max: 2025, direction: 'higher' }
+  },
+  {
+    key: 'price',
+    label: 'Price',
+    field: 'price',
+    fallback: 600000,
+    curve: { type: 'linear', min: 400000, max: 700000, direction: 'lower' }
+  },
+  ...(Object.keys(subjectiveRatings) as SubjectiveRating[]).map(
+    (rating): CriterionDefinition => ({
+      key: `tour${rating[0].toUpperCase()}${rating.slice(1)}`,
+      label: `${subjectiveRatings[rating]} (tour)`,
+      field: 'tour_notes',
+      rating,
+      fallback: 3,
+      curve: { type: 'linear', min: 1, max: 5, direction: 'higher' }
+    })
+  )
+]
+
+export const defaultWeights: Weights = {
+  garageSpaces: 9,
+  walkInCloset: 8,
+  kitchenIsland: 8,
+  distance: 9,
+  yardMaintenance: 8,
+  hoaFees: 6,
+  size: 4,
+  yearBuilt: 2,
+  price: 2,
+  monthlyCost: 6,
+  // Tour ratings only count once someone turns their weight up.
+  tourLight: 0,
+  tourNoise: 0,
+  tourLayout: 0,
+  tourNeighborhood: 0
+}
+
+const monthlyCostCriterion = (
+  finance: FinanceSettings
+): CriterionDefinition => ({
+  key: 'monthlyCost',
+  label: 'Monthly Cost',
+  field: 'price',
+  finance,
+  curve: {
+    type: 'linear',
+    min: finance.min_monthly_cost,
+    max: finance.max_monthly_cost,
+    direction: 'lower'
+  }
+})
+
+const customCriterion = (attribute: CustomAttribute): CriterionDefinition => ({
+  key: customAttributeKey(attribute),
+  label: attribute.name,
+  field: 'custom',
+  attribute,
+  fallback:
+    attribute.type === 'number' ? (attribute.min + attribute.max) / 2 : 50,
+  curve:
+    attribute.type === 'boolean'
+      ? { type: 'boolean', prefer: attribute.prefer }
+      : attribute.type === 'number'
+        ? {
+            type: 'linear',
+            min: attribute.min,
+            max: attribute.max,
+            direction: attribute.direction
+          }
+        : { type: 'linear', min: 0, max: 100, direction: 'higher' }
+})
+
+export const buildCriteria = (
+  destinations: Destination[],
+  finance?: FinanceSettings,
+  criteria: CriterionDefinition[] = defaultCriteria,
+  attributes: CustomAttribute[] = []
+): CriterionDefinition[] => {
+  const totalWeight = destinations.reduce((sum, d) => sum + d.weight, 0)
+  const custom = attributes.filter(isScorable).map(customCriterion)
+  const expanded = criteria.flatMap((criterion): CriterionDefinition[] => {
+    if (finance?.score_by_monthly_cost) {
+      if (criterion.key === 'price') return [monthlyCostCriterion(finance)]
+      if (criterion.key === 'hoaFees') return []
+    }
+    if (criterion.field !== 'commutes' || destinations.length === 0) {
+      return [criterion]
+    }
+    return destinations.map((destination) => ({
+      ...criterion,
+      key: `${criterion.key}:${destination.id}`,
+      label: `Commute to ${destination.name}`,
+      destinationId: destination.id,
+      weightKey: criterion.key,
+      weightShare:
+        totalWeight > 0
+          ? destination.weight / totalWeight
+          : 1 / destinations.length,
+      fallback: destination.max_minutes,
+      curve: {
+        type: 'linear',
+        min: 0,
+        max: destination.max_minutes,
+        direction: 'lower'
+      }
+    }))
+  })
+  return [...expanded, ...custom]
+}
+
+const criterionWeight = (criterion: CriterionDefinition, weights: Weights) =>
+  (weights[criterion.weightKey ?? criterion.key] ?? 0) *
+  (criterion.weightShare ?? 1)
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value))
+
+const readValue = (house: House, criterion: CriterionDefinition) => {
+  if (criterion.attribute) {
+    const value = readCustomValue(house, criterion.attribute)
+    if (criterion.curve.type === 'boolean') return value === true
+    if (criterion.attribute.type === 'enum') {
+      return criterion.attribute.option_scores[String(value)] ?? 50
+    }
+    return value === null ? (criterion.fallback ?? 0) : Number(value)
+  }
+  const raw = house[criterion.field]
+  if (criterion.curve.type === 'boolean') return raw === true
+
+  const fallback = criterion.fallback ?? 0
+  if (criterion.finance) return monthlyCost(house, criterion.finance).total
+  if (criterion.field === 'commutes') {
+    return (
+      commuteMinutes(findCommute(house, criterion.destinationId)) ?? fallback
+    )
+  }
+  if (criterion.rating) {
+    return house.tour_notes?.ratings[criterion.rating] ?? fallback
+  }
+  if (typeof raw === 'string') {
+    const match = raw.match(/(\d+)/)
+    return match ? parseInt(match[1]) : fallback
+  }
+  return Number(raw) || fallback
+}
+
+const displayValue = (house: House, criterion: CriterionDefinition) => {
+  if (criterion.attribute) {
+    return readCustomValue(house, criterion.attribute)
+  }
+  if (criterion.finance) {
+    return formatMonthly(monthlyCost(house, criterion.finance).total)
+  }
+  if (criterion.field === 'commutes') {
+    return formatCommute(findCommute(house, criterion.destinationId)) || null
+  }
+  if (criterion.rating) {
+    return house.tour_notes?.ratings[criterion.rating] ?? null
+  }
+  const raw = house[criterion.field]
+  return typeof raw === 'object' || raw === undefined ? null : raw
+}
+
+const evaluateCurve = (curve: ScoreCurve, value: number | boolean) => {
+  switch (curve.type) {
+    case 'boolean':
+      return value === curve.prefer ? 100 : 0
+    case 'linear': {
+      // Equal bounds leave no range to scale over, so score as a threshold.
+      if (curve.max === curve.min) {
+        const passes =
+          curve.direction === 'higher'
+            ? Number(value) >= curve.max
+            : Number(value) <= curve.min
+        return passes ? 100 : 0
+      }
+      const ratio = (Number(value) - curve.min) / (curve.max - curve.min)
+      return clamp(
+        curve.direction === 'higher' ? ratio * 100 : 100 - ratio * 100
+      )
+    }
+    case 'step': {
+      const step = curve.breakpoints.find((b) =>
+        b.exact
+          ? Number(value) === b.at
+          : curve.direction === 'higher'
+            ? Number(value) >= b.at
+            : Number(value) <= b.at
+      )
+      return step ? step.score : curve.otherwise
+    }
+    case 'threshold': {
+      const passes =
+        curve.direction === 'higher'
+          ? Number(value) >= curve.threshold
+          : Number(value) <= curve.threshold
+      return passes ? 100 : 0
+    }
+  }
+}
+
+export const scoreCriterion = (house: House, criterion: CriterionDefinition) =>
+  evaluateCurve(criterion.curve, readValue(house, criterion))
+
+export const scoreBreakdown = (
+  house: House,
+  weights: Weights,
+  criteria: CriterionDefinition[] = defaultCriteria
+): ScoreBreakdown => {
+  const totalWeight = criteria.reduce(
+    (sum, criterion) => sum + criterionWeight(criterion, weights),
+    0
+  )
+
+  const contributions = criteria.map((criterion) => {
+    const weight = criterionWeight(criterion, weights)
+    const value = readValue(house, criterion)
+    const subScore = evaluateCurve(criterion.curve, value)
+    const maxPoints = totalWeight > 0 ? (weight / totalWeight) * 100 : 0
+    const points = (subScore / 100) * maxPoints
+    return {
+      key: criterion.key,
+      label: criterion.label,
+      rawValue: displayValue(house, criterion),
+      value,
+      subScore,
+      weight,
+      points,
+      maxPoints,
+      pointsLost: maxPoints - points
+    }
+  })
+
+  return {
+    score: contributions.reduce((sum, c) => sum + c.points, 0),
+    contributions
+  }
+}
+
+export const scoreHouse = (
+  house: House,
+  weights: Weights,
+  criteria: CriterionDefinition[] = defaultCriteria
+) => scoreBreakdown(house, weights, criteria).score
+
+export const biggestGains = (breakdown: ScoreBreakdown, limit = 3) =>
+  [...breakdown.contributions]
+    .filter((c) => c.pointsLost > 0.05)
+    .sort((a, b) => b.pointsLost - a.pointsLost)
+    .slice(0, limit)
+
+export const formatWeightKey = (key: string) =>
+  key.replace(/([A-Z])/g, ' $1').trim()
+
+// Custom attribute keys are ids, so those sliders take the criterion's label.
+export const weightLabel = (key: string, criteria: CriterionDefinition[]) =>
+  criteria.find((c) => c.key === key && c.attribute)?.label ??
+  formatWeightKey(key)
@@ -0,0 +1,108 @@
+import type { House } from '../types/house'
+import type { CriterionDefinition, Weights } from '../types/scoring'
+import type {
+  HouseStability,
+  MonteCarloResult,
+  WeightSweep
+} from '../types/sensitivity'
+import { scoreHouse } from './scoring'
+
+const weightValues = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+const sensitiveRankChange = 2
+
+export const rankHouses = (
+  houses: House[],
+  weights: Weights,
+  criteria: CriterionDefinition[]
+) => {
+  const ranked = houses
+    .map((house) => ({
+      id: house.id,
+      score: scoreHouse(house, weights, criteria)
+    }))
+    .sort((a, b) => b.score - a.score)
+  return new Map(ranked.map((h, i) => [h.id, i + 1]))
+}
+
+export const sweepWeights = (
+  houses: House[],
+  weights: Weights,
+  criteria: CriterionDefinition[],
+  weightKeys: string[]
+): WeightSweep[] =>
+  weightKeys.map((key) => {
+    const rankings = weightValues.map((value) =>
+      rankHouses(houses, { ...weights, [key]: value }, criteria)
+    )
+    return {
+      key,
+      values: weightValues,
+      ranks: Object.fromEntries(
+        houses.map((house) => [
+          house.id,
+          rankings.map((ranking) => ranking.get(house.id) ?? houses.length)
+        ])
+      )
+    }
+  })
+
+export const rankStability = (
+  houses: House[],
+  weights: Weights,
+  criteria: CriterionDefinition[],
+  sweeps: WeightSweep[]
+): HouseStability[] => {
+  const current = rankHouses(houses, weights, criteria)
+  return houses
+    .map((house) => {
+      const currentRank = current.get(house.id) ?? houses.length
+      const allRanks = sweeps.flatMap((s) => s.ranks[house.id] ?? [])
+      const sensitiveTo = sweeps
+        .filter((sweep) =>
+          (sweep.ranks[house.id] ?? []).some(
+            (rank) =>
+              Math.abs(rank - currentRank) >= sensitiveRankChange ||
+              (currentRank === 1) !== (rank === 1)
+          )
+        )
+        .map((sweep) => sweep.key)
+      return {
+        houseId: house.id,
+        currentRank,
+        bestRank: Math.min(currentRank, ...allRanks),
+        worstRank: Math.max(currentRank, ...allRanks),
+        sensitiveTo
+      }
+    })
+    .sort((a, b) => a.currentRank - b.currentRank)
+}
+
+export const runMonteCarlo = (
+  houses: House[],
+  criteria: CriterionDefinition[],
+  weightKeys: string[],
+  iterations: number,
+  random: () => number = Math.random
+): MonteCarloResult[] => {
+  const firsts = new Map<string, number>()
+  const topThrees = new Map<string, number>()
+
+  for (let i = 0; i < iterations; i++) {
+    const weights = Object.fromEntries(
+      weightKeys.map((key) => [key, Math.round(random() * 10)])
+    )
+    const ranking = rankHouses(houses, weights, criteria)
+    for (const [id, rank] of ranking) {
+      if (rank === 1) firsts.set(id, (firsts.get(id) ?? 0) + 1)
+      if (rank <= 3) topThrees.set(id, (topThrees.get(id) ?? 0) + 1)
+    }
+  }
+
+  return houses
+    .map((house) => ({
+      houseId: house.id,
+      firstShare: (firsts.get(house.id) ?? 0) / Math.max(1, iterations),
+      topThreeShare: (topThrees.get(house.id) ?? 0) / Math.max(1, iterations)
+    }))
+    .sort((a, b) => b.topThreeShare - a.topThreeShare)
+}
@@ -0,0 +1,80 @@
+import type { House } from '../types/house'
+import type { HouseStatus } from '../types/status'
+
+// Pipeline order; also the column order of the board and the status sort.
+export const houseStatuses: HouseStatus[] = [
+  'interested',
+  'scheduled_tour',
+  'toured',
+  'offer_made',
+  'under_contract',
+  'sold',
+  'withdrawn',
+  'rejected'
+]
+
+export const statusLabels: Record<HouseStatus, string> = {
+  interested: 'Interested',
+  scheduled_tour: 'Scheduled Tour',
+  toured: 'Toured',
+  offer_made: 'Offer Made',
+  under_contract: 'Under Contract',
+  sold: 'Sold',
+  withdrawn: 'Withdrawn',
+  rejected: 'Rejected'
+}
+
+export const statusColors: Record<HouseStatus, string> = {
+  interested: 'bg-gray-100 text-gray-700',
+  scheduled_tour: 'bg-blue-100 text-blue-700',
+  toured: 'bg-indigo-100 text-indigo-700',
+  offer_made: 'bg-purple-100 text-purple-700',
+  under_contract: 'bg-green-100 text-green-700',
+  sold: 'bg-orange-100 text-orange-700',
+  withdrawn: 'bg-gray-200 text-gray-600',
+  rejected: 'bg-red-100 text-red-700'
+}
+
+export const closedStatuses: HouseStatus[] = ['sold', 'withdrawn', 'rejected']
+
+// A listing can sell or be pulled at any stage before we own it; stepping back
+// one stage covers a cancelled tour or a countered offer, and withdrawn or
+// rejected houses can be picked up again if they come back on the market.
+const transitions: Record<HouseStatus, HouseStatus[]> = {
+  interested: ['scheduled_tour', 'sold', 'withdrawn', 'rejected'],
+  scheduled_tour: ['toured', 'interested', 'sold', 'withdrawn', 'rejected'],
+  toured: ['offer_made', 'scheduled_tour', 'sold', 'withdrawn', 'rejected'],
+  offer_made: ['under_contract', 'toured', 'sold', 'withdrawn', 'rejected'],
+  under_contract: ['sold', 'offer_made', 'withdrawn'],
+  sold: [],
+  withdrawn: ['interested'],
+  rejected: ['interested']
+}
+
+export const allowedTransitions = (from: HouseStatus) => transitions[from]
+
+export const canTransition = (from: HouseStatus, to: HouseStatus) =>
+  from === to || transitions[from].includes(to)
+
+export const isHouseStatus = (value: unknown): value is HouseStatus =>
+  houseStatuses.includes(value as HouseStatus)
+
+export const parseStatus = (text: string): HouseStatus | null => {
+  const normalized = text
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z]/g, '')
+  return (
+    houseStatuses.find(
+      (status) =>
+        status.replace(/_/g, '') === normalized ||
+        statusLabels[status].toLowerCase().replace(/[^a-z]/g, '') === normalized
+    ) ?? null
+  )
+}
+
+// Rows and backups from before statuses only carry the `sold` flag.
+export const migrateLegacyStatus = (house: House): House =>
+  isHouseStatus(house.status)
+    ? house
+    : { ...house, status: house.sold ? 'sold' : 'interested' }
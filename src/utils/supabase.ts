@@ -1,6 +1,21 @@
 import { createClient } from '@supabase/supabase-js'
+import type { SupabaseClient } from '@supabase/supabase-js'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || ''
 const supabaseKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY || ''
 
-export const supabase = createClient(supabaseUrl, supabaseKey)
+export const isSupabaseConfigured = supabaseUrl !== '' && supabaseKey !== ''
+
+let client: SupabaseClient | null = null
+
+// Created on first use so the app still starts, in local mode, without a
+// Supabase project.
+export const getSupabase = () => {
+  if (!isSupabaseConfigured) {
+    throw new Error(
+      'Supabase is not configured: set VITE_SUPABASE_URL and VITE_SUPABASE_PUBLISHABLE_KEY'
+    )
+  }
+  client ??= createClient(supabaseUrl, supabaseKey)
+  return client
+}
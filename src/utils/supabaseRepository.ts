@@ -0,0 +1,181 @@
+import type { House } from '../types/house'
+import type { HouseRepository, RepositoryTable } from '../types/repository'
+import type { HouseQuery, QueryError } from '../types/sync'
+import { getSupabase } from './supabase'
+
+export const photoBucket = 'house-photos'
+
+// The photo bucket is private, so photos are shown through signed URLs.
+const signedUrlSeconds = 60 * 60
+
+// Destinations are keyed per household so every household can keep the
+// default workplace id.
+const conflictColumns: Partial<Record<RepositoryTable, string>> = {
+  destinations: 'household_id,id'
+}
+
+type Filter = [column: string, value: string]
+
+// Adapts the Supabase query builder to HouseQuery by collecting the filters
+// and running the query on `then`. The sync layer always selects every column.
+const houseQuery = (
+  execute: (
+    filters: Filter[],
+    returning: boolean
+  ) => PromiseLike<{ data: unknown; error: QueryError | null }>,
+  returning = false
+) => {
+  const filters: Filter[] = []
+  const query: HouseQuery = {
+    eq: (column, value) => {
+      filters.push([column, value])
+      return query
+    },
+    select: () => {
+      returning = true
+      return query
+    },
+    then: (resolve, reject) =>
+      execute(filters, returning)
+        .then(({ data, error }) => ({
+          // The client has no generated types, so rows arrive untyped.
+          data: data as House[] | null,
+          error
+        }))
+        .then(resolve, reject)
+  }
+  return query
+}
+
+export const supabaseRepository: HouseRepository = {
+  source: 'supabase',
+  isOnline: () => navigator.onLine,
+  houses: {
+    from: (table) => ({
+      select: () =>
+        houseQuery(
+          (filters) =>
+            filters.reduce(
+              (query, [column, value]) => query.eq(column, value),
+              getSupabase().from(table).select('*')
+            ),
+          true
+        ),
+      insert: (row) =>
+        houseQuery((_, returning) => {
+          const query = getSupabase().from(table).insert(row)
+          return returning ? query.select('*') : query
+        }),
+      update: (row) =>
+        houseQuery((filters, returning) => {
+          const query = filters.reduce(
+            (built, [column, value]) => built.eq(column, value),
+            getSupabase().from(table).update(row)
+          )
+          return returning ? query.select('*') : query
+        }),
+      delete: () =>
+        houseQuery((filters) =>
+          filters.reduce(
+            (query, [column, value]) => query.eq(column, value),
+            getSupabase().from(table).delete()
+          )
+        )
+    })
+  },
+  list: async <T>(
+    table: RepositoryTable,
+    householdId: string,
+    order: { column: string; ascending: boolean }
+  ) => {
+    const { data, error } = await getSupabase()
+      .from(table)
+      .select('*')
+      .eq('household_id', householdId)
+      .order(order.column, { ascending: order.ascending })
+    return { data: data as T[] | null, error }
+  },
+  save: async (table, householdId, rows) => {
+    const { error } = await getSupabase()
+      .from(table)
+      .upsert(
+        rows.map((row) => ({ ...row, household_id: householdId })),
+        { onConflict: conflictColumns[table] ?? 'id' }
+      )
+    return { error }
+  },
+  remove: async (table, householdId, id) => {
+    const { error } = await getSupabase()
+      .from(table)
+      .delete()
+      .eq('household_id', householdId)
+      .eq('id', id)
+    return { error }
+  },
+  subscribe: (householdId, onChange) => {
+    const channel = getSupabase()
+      .channel(`houses:${householdId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'houses',
+          filter: `household_id=eq.${householdId}`
+        },
+        (payload) => {
+          // Delete events skip the filter and, with row level security on,
+          // carry only the id. The house store only holds this household's
+          // houses, so it ignores deletes from other households.
+          if (payload.eventType === 'DELETE') {
+            const old = payload.old as Partial<House>
+            if (old.id) {
+              onChange({ house_id: old.id, house: null, changed_by: null })
+            }
+            return
+          }
+          const house = payload.new as House
+          onChange({
+            house_id: house.id,
+            house,
+            changed_by: house.updated_by ?? null
+          })
+        }
+      )
+      .subscribe()
+    return () => {
+      getSupabase().removeChannel(channel)
+    }
+  },
+  uploadPhoto: async (path, file) => {
+    const storage = getSupabase().storage.from(photoBucket)
+    const { error } = await storage.upload(path, file, {
+      contentType: file.type
+    })
+    if (error) return { url: null, error }
+    const signed = await storage.createSignedUrl(path, signedUrlSeconds)
+    return { url: signed.data?.signedUrl ?? null, error: signed.error }
+  },
+  photoUrls: async (paths) => {
+    const { data, error } = await getSupabase()
+      .storage.from(photoBucket)
+      .createSignedUrls(paths, signedUrlSeconds)
+    if (error) return { urls: {}, error }
+    return {
+      urls: Object.fromEntries(
+        (data ?? []).flatMap((signed) =>
+          signed.path && signed.signedUrl
+            ? [[signed.path, signed.signedUrl]]
+            : []
+        )
+      ),
+      error: null
+    }
+  },
+  deletePhoto: async (path) => {
+    const { error } = await getSupabase()
+      .storage.from(photoBucket)
+      .remove([path])
+    return { error }
+  }
+}
@@ -0,0 +1,54 @@
+import type { House } from '../types/house'
+import type { SubjectiveRating, TourNotes, TourPhoto } from '../types/tour'
+
+export const subjectiveRatings: Record<SubjectiveRating, string> = {
+  light: 'Light',
+  noise: 'Noise',
+  layout: 'Layout',
+  neighborhood: 'Neighborhood Feel'
+}
+
+export const emptyTourNotes: TourNotes = {
+  notes: '',
+  pros: [],
+  cons: [],
+  ratings: {},
+  photos: []
+}
+
+export const hasTourNotes = (tour: TourNotes | undefined) =>
+  !!tour &&
+  (tour.notes.trim() !== '' ||
+    tour.pros.length > 0 ||
+    tour.cons.length > 0 ||
+    Object.keys(tour.ratings).length > 0 ||
+    tour.photos.length > 0)
+
+// Photos referenced by any of `from` that `to` no longer keeps, so their
+// stored objects can be deleted.
+export const droppedPhotos = (
+  from: (TourNotes | undefined)[],
+  to: TourNotes | undefined
+) => {
+  const kept = new Set((to?.photos ?? []).map((p) => p.path))
+  const dropped = new Map<string, TourPhoto>()
+  from.forEach((tour) =>
+    tour?.photos.forEach((photo) => {
+      if (!kept.has(photo.path)) dropped.set(photo.path, photo)
+    })
+  )
+  return [...dropped.values()]
+}
+
+// Leaves out photos whose stored objects are gone, so restoring an older copy
+// of a house doesn't bring back broken images.
+export const withoutPhotos = (house: House, deleted: Set<string>): House =>
+  house.tour_notes.photos.some((p) => deleted.has(p.path))
+    ? {
+        ...house,
+        tour_notes: {
+          ...house.tour_notes,
+          photos: house.tour_notes.photos.filter((p) => !deleted.has(p.path))
+        }
+      }
+    : house
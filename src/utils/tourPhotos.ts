@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react'
+import { v4 as uuidV4 } from 'uuid'
+import { repository } from './repository'
+import type { TourPhoto } from '../types/tour'
+
+// Photos are stored under their household, which is what storage policies
+// check.
+export const tourPhotoPath = (
+  householdId: string,
+  houseId: string,
+  extension: string
+) => `${householdId}/${houseId}/${uuidV4()}.${extension}`
+
+export const uploadTourPhoto = async (
+  householdId: string,
+  houseId: string,
+  file: File
+): Promise<TourPhoto | null> => {
+  const extension = file.name.split('.').pop() ?? 'jpg'
+  const path = tourPhotoPath(householdId, houseId, extension)
+  const { url, error } = await repository.uploadPhoto(path, file)
+  if (error || !url) {
+    console.error('Error uploading photo:', error)
+    return null
+  }
+  return { path, url, uploaded_at: new Date().toISOString() }
+}
+
+export const deleteTourPhoto = async (photo: TourPhoto) => {
+  const { error } = await repository.deletePhoto(photo.path)
+  if (error) {
+    console.error('Error deleting photo:', error)
+    return false
+  }
+  return true
+}
+
+// Looks up displayable URLs for photos, falling back to the saved ones.
+export const usePhotoUrls = (photos: TourPhoto[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({})
+  const paths = photos.map((p) => p.path).join('\n')
+
+  useEffect(() => {
+    if (!paths) return
+    let cancelled = false
+    repository.photoUrls(paths.split('\n')).then(({ urls: next, error }) => {
+      if (error) console.error('Error loading photo links:', error)
+      if (!cancelled) setUrls((prev) => ({ ...prev, ...next }))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [paths])
+
+  return (photo: TourPhoto) => urls[photo.path] ?? photo.url
+}
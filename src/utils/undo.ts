@@ -0,0 +1,125 @@
+import { v4 as uuidV4 } from 'uuid'
+import type { House } from '../types/house'
+import { changedFields } from './houseSync'
+import type { Weights } from '../types/scoring'
+import type { HouseChange, UndoEntry, UndoHistory } from '../types/undo'
+
+export const emptyUndoHistory: UndoHistory = { past: [], future: [] }
+
+export const maxUndo = 50
+
+// Slider drags fire a change per step; steps this close together undo as one.
+const weightMergeMs = 2000
+
+export const houseEntry = (
+  label: string,
+  changes: HouseChange[]
+): UndoEntry => ({
+  id: uuidV4(),
+  label,
+  at: new Date().toISOString(),
+  kind: 'houses',
+  changes
+})
+
+export const weightsEntry = (
+  label: string,
+  before: Weights,
+  after: Weights
+): UndoEntry => ({
+  id: uuidV4(),
+  label,
+  at: new Date().toISOString(),
+  kind: 'weights',
+  before,
+  after
+})
+
+export const recordUndo = (
+  history: UndoHistory,
+  entry: UndoEntry
+): UndoHistory => {
+  const last = history.past[history.past.length - 1]
+  if (
+    last?.kind === 'weights' &&
+    entry.kind === 'weights' &&
+    last.label === entry.label &&
+    new Date(entry.at).getTime() - new Date(last.at).getTime() < weightMergeMs
+  ) {
+    return {
+      past: [
+        ...history.past.slice(0, -1),
+        { ...last, at: entry.at, after: entry.after }
+      ],
+      future: []
+    }
+  }
+  return { past: [...history.past, entry].slice(-maxUndo), future: [] }
+}
+
+export const undoStep = (history: UndoHistory) => {
+  const entry = history.past[history.past.length - 1]
+  if (!entry) return null
+  return {
+    entry,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [entry, ...history.future]
+    }
+  }
+}
+
+export const redoStep = (history: UndoHistory) => {
+  const entry = history.future[0]
+  if (!entry) return null
+  return {
+    entry,
+    history: {
+      past: [...history.past, entry],
+      future: history.future.slice(1)
+    }
+  }
+}
+
+// A purged house can't come back, so drop every step that touches it.
+export const forgetHouse = (
+  history: UndoHistory,
+  houseId: string
+): UndoHistory => {
+  const forget = (entries: UndoEntry[]) =>
+    entries.flatMap((entry): UndoEntry[] => {
+      if (entry.kind !== 'houses') return [entry]
+      const changes = entry.changes.filter((c) => c.id !== houseId)
+      return changes.length > 0 ? [{ ...entry, changes }] : []
+    })
+  return { past: forget(history.past), future: forget(history.future) }
+}
+
+// Weight steps belong to the profile they were made in; switching profiles
+// would otherwise undo them into the wrong one.
+export const forgetWeights = (history: UndoHistory): UndoHistory => ({
+  past: history.past.filter((entry) => entry.kind !== 'weights'),
+  future: history.future.filter((entry) => entry.kind !== 'weights')
+})
+
+// The copy of a house to write when undoing or redoing a change; null means
+// the house should not exist. A house that still exists only gets back the
+// fields the change itself touched, so later edits, a partner's included,
+// survive.
+export const undoTarget = (
+  change: HouseChange,
+  direction: 'undo' | 'redo',
+  current: House | null
+) => {
+  const [from, to] =
+    direction === 'undo'
+      ? [change.after, change.before]
+      : [change.before, change.after]
+  if (!from || !to || !current) return to
+  return changedFields(from, to).reduce(
+    (house, key): House => ({ ...house, [key]: to[key as keyof House] }),
+    current
+  )
+}
+
+export const isDeleted = (house: House) => Boolean(house.deleted_at)
@@ -0,0 +1,132 @@
+import type { House } from '../types/house'
+import type {
+  FieldSchema,
+  HouseInputs,
+  HouseSchema,
+  ValidationErrors
+} from '../types/validation'
+
+export const houseSchema: HouseSchema = {
+  address: { label: 'Address', type: 'string', required: true },
+  city: { label: 'City', type: 'string' },
+  price: { label: 'Price', type: 'number', min: 0 },
+  bedrooms: { label: 'Bedrooms', type: 'number', min: 0 },
+  bathrooms: { label: 'Bathrooms', type: 'number', min: 0 },
+  size: { label: 'Size (sqft)', type: 'number', min: 0 },
+  style: { label: 'Style', type: 'string' },
+  year_built: {
+    label: 'Year Built',
+    type: 'number',
+    min: 1800,
+    max: new Date().getFullYear() + 1,
+    zeroIsUnset: true
+  },
+  garage_spaces: { label: 'Garage Spaces', type: 'number', min: 0 },
+  hoa_fee: { label: 'HOA Fee', type: 'number', min: 0 },
+  thumbnail_url: { label: 'Thumbnail URL', type: 'url' },
+  lat: { label: 'Latitude', type: 'number', min: -90, max: 90, nullable: true },
+  lng: {
+    label: 'Longitude',
+    type: 'number',
+    min: -180,
+    max: 180,
+    nullable: true
+  }
+}
+
+// Accepts what people paste from listings: "$1,250", "450/mo", " 3 ".
+export const parseNumber = (
+  raw: string
+): { value?: number; error?: string } => {
+  const text = raw.trim()
+  const value = Number(text.replace(/[$,\s]/g, '').replace(/\/.*$/, ''))
+  return text === '' || isNaN(value)
+    ? { error: `"${text}" is not a number` }
+    : { value }
+}
+
+const isUrl = (text: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(text).protocol)
+  } catch {
+    return false
+  }
+}
+
+// Turns raw input into the field's type. Blank text becomes the field's
+// empty value: '' for text, 0 for numbers, null for nullable numbers.
+export const coerceField = (
+  schema: FieldSchema,
+  raw: string
+): { value?: string | number | null; error?: string } => {
+  const text = raw.trim()
+  if (schema.type !== 'number') return { value: text }
+  if (text === '') return { value: schema.nullable ? null : 0 }
+  return parseNumber(text)
+}
+
+export const validateField = (schema: FieldSchema, value: unknown) => {
+  if (value === null || value === undefined || value === '') {
+    return schema.required ? `${schema.label} is required` : null
+  }
+  if (schema.type === 'url') {
+    return isUrl(String(value))
+      ? null
+      : `${schema.label} must be an http(s) link`
+  }
+  if (schema.type !== 'number') return null
+  const number = Number(value)
+  if (typeof value !== 'number' || isNaN(number)) {
+    return `${schema.label} must be a number`
+  }
+  if (schema.zeroIsUnset && number === 0) return null
+  if (schema.min === 0 && number < 0)
+    return `${schema.label} cannot be negative`
+  if (
+    (schema.min !== undefined && number < schema.min) ||
+    (schema.max !== undefined && number > schema.max)
+  ) {
+    return schema.max === undefined
+      ? `${schema.label} must be at least ${schema.min}`
+      : `${schema.label} must be between ${schema.min} and ${schema.max}`
+  }
+  return null
+}
+
+// Older rows stored numbers as text. Converts any that parse, and leaves the
+// rest for validation to flag.
+export const normalizeHouse = (
+  house: House,
+  schema: HouseSchema = houseSchema
+): House => {
+  const normalized = { ...house }
+  for (const [field, fieldSchema] of Object.entries(schema)) {
+    const key = field as keyof House
+    const value = house[key]
+    if (fieldSchema.type !== 'number' || typeof value !== 'string') continue
+    const { value: coerced, error } = coerceField(fieldSchema, value)
+    if (!error) Object.assign(normalized, { [key]: coerced })
+  }
+  return normalized
+}
+
+// Raw inputs that don't parse take precedence over the value they failed to
+// replace.
+export const validateHouse = (
+  house: House,
+  inputs: HouseInputs = {},
+  schema: HouseSchema = houseSchema
+): ValidationErrors => {
+  const errors: ValidationErrors = {}
+  for (const [field, fieldSchema] of Object.entries(schema)) {
+    const key = field as keyof House
+    const raw = inputs[key]
+    const parseError =
+      raw !== undefined ? coerceField(fieldSchema, raw).error : undefined
+    const error = parseError
+      ? `${fieldSchema.label}: ${parseError}`
+      : validateField(fieldSchema, house[key])
+    if (error) errors[key] = error
+  }
+  return errors
+}
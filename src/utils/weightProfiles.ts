@@ -0,0 +1,116 @@
+import { v4 as uuidV4 } from 'uuid'
+import { repository } from './repository'
+import { defaultWeights } from './scoring'
+import { defaultFinanceSettings } from './mortgage'
+import type { FinanceSettings } from '../types/finance'
+import type { Weights } from '../types/scoring'
+import type { WeightProfile } from '../types/weightProfile'
+
+export const defaultBudgetLimit = 600000
+
+export const weightPresets: {
+  name: string
+  weights: Weights
+  isRater: boolean
+}[] = [
+  { name: 'Gabbi', weights: defaultWeights, isRater: true },
+  {
+    name: 'Partner',
+    isRater: true,
+    weights: {
+      garageSpaces: 6,
+      walkInCloset: 5,
+      kitchenIsland: 7,
+      distance: 8,
+      yardMaintenance: 5,
+      hoaFees: 7,
+      size: 7,
+      yearBuilt: 4,
+      price: 6
+    }
+  },
+  {
+    name: 'Commute-heavy',
+    isRater: false,
+    weights: {
+      garageSpaces: 5,
+      walkInCloset: 3,
+      kitchenIsland: 3,
+      distance: 10,
+      yardMaintenance: 4,
+      hoaFees: 4,
+      size: 3,
+      yearBuilt: 2,
+      price: 4
+    }
+  }
+]
+
+// A preset as seeded into a new household, before anyone changed it.
+export const isUntouchedPreset = (profile: WeightProfile) =>
+  weightPresets.some(
+    (preset) =>
+      preset.name === profile.name &&
+      Object.keys({ ...preset.weights, ...profile.weights }).every(
+        (key) => preset.weights[key] === profile.weights[key]
+      )
+  )
+
+export const createWeightProfile = (
+  name: string,
+  weights: Weights = defaultWeights,
+  budgetLimit = defaultBudgetLimit,
+  isRater = false,
+  finance: FinanceSettings = defaultFinanceSettings
+): WeightProfile => ({
+  id: uuidV4(),
+  name,
+  weights: { ...weights },
+  budget_limit: budgetLimit,
+  finance: { ...finance },
+  is_rater: isRater,
+  last_used_at: new Date().toISOString()
+})
+
+// Resolves with null when the load failed, so callers can tell a failure
+// from a household that has no profiles yet.
+export const loadWeightProfiles = async (
+  householdId: string
+): Promise<WeightProfile[] | null> => {
+  const { data, error } = await repository.list<WeightProfile>(
+    'weight_profiles',
+    householdId,
+    {
+      column: 'last_used_at',
+      ascending: false
+    }
+  )
+  if (error) {
+    console.error('Error loading weight profiles:', error)
+    return null
+  }
+  return (data ?? []) as WeightProfile[]
+}
+
+export const saveWeightProfile = async (
+  householdId: string,
+  profile: WeightProfile
+) => {
+  const { error } = await repository.save('weight_profiles', householdId, [
+    profile
+  ])
+  if (error) {
+    console.error('Error saving weight profile:', error)
+    return false
+  }
+  return true
+}
+
+export const deleteWeightProfile = async (householdId: string, id: string) => {
+  const { error } = await repository.remove('weight_profiles', householdId, id)
+  if (error) {
+    console.error('Error deleting weight profile:', error)
+    return false
+  }
+  return true
+}
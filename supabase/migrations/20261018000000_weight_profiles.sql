@@ -0,0 +1,7 @@
+create table if not exists public.weight_profiles (
+  id uuid primary key,
+  name text not null,
+  weights jsonb not null default '{}'::jsonb,
+  budget_limit integer not null default 600000,
+  last_used_at timestamptz not null default now()
+);
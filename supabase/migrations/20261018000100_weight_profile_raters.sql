@@ -0,0 +1,2 @@
+alter table public.weight_profiles
+  add column if not exists is_rater boolean not null default false;
@@ -0,0 +1,2 @@
+alter table public.houses
+  add column if not exists commutes jsonb not null default '[]'::jsonb;
@@ -0,0 +1,7 @@
+create table if not exists public.destinations (
+  id text primary key,
+  name text not null,
+  weight numeric not null default 5,
+  max_minutes numeric not null default 50,
+  position integer not null default 0
+);
@@ -0,0 +1,2 @@
+alter table public.weight_profiles
+  add column if not exists finance jsonb not null default '{}'::jsonb;
@@ -0,0 +1,5 @@
+create table if not exists public.saved_filters (
+  id uuid primary key,
+  name text not null,
+  filter jsonb not null default '{}'::jsonb
+);
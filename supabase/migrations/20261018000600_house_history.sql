@@ -0,0 +1,20 @@
+create table if not exists public.house_history (
+  id uuid primary key,
+  house_id uuid not null references public.houses (id) on delete cascade,
+  event text not null check (event in ('added', 'changed')),
+  field text,
+  old_value jsonb,
+  new_value jsonb,
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists house_history_house_id_idx
+  on public.house_history (house_id, recorded_at);
+
+-- Houses that predate history tracking start their list time today.
+insert into public.house_history (id, house_id, event, field, new_value)
+select gen_random_uuid(), h.id, 'added', 'price', to_jsonb(h.price)
+from public.houses h
+where not exists (
+  select 1 from public.house_history e where e.house_id = h.id
+);
@@ -0,0 +1,16 @@
+alter table public.houses
+  add column if not exists status text not null default 'interested'
+  check (
+    status in (
+      'interested',
+      'scheduled_tour',
+      'toured',
+      'offer_made',
+      'under_contract',
+      'sold',
+      'withdrawn',
+      'rejected'
+    )
+  );
+
+update public.houses set status = 'sold' where sold and status = 'interested';
@@ -0,0 +1,19 @@
+alter table public.houses
+  add column if not exists tour_notes jsonb not null
+  default '{"notes": "", "pros": [], "cons": [], "ratings": {}, "photos": []}'::jsonb;
+
+insert into storage.buckets (id, name, public)
+values ('house-photos', 'house-photos', true)
+on conflict (id) do nothing;
+
+create policy "house photos are readable"
+  on storage.objects for select
+  using (bucket_id = 'house-photos');
+
+create policy "house photos can be uploaded"
+  on storage.objects for insert
+  with check (bucket_id = 'house-photos');
+
+create policy "house photos can be deleted"
+  on storage.objects for delete
+  using (bucket_id = 'house-photos');
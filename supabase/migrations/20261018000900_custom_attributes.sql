@@ -0,0 +1,15 @@
+create table if not exists public.custom_attributes (
+  id uuid primary key,
+  name text not null,
+  type text not null check (type in ('boolean', 'number', 'enum', 'text')),
+  options jsonb not null default '[]'::jsonb,
+  option_scores jsonb not null default '{}'::jsonb,
+  min numeric not null default 0,
+  max numeric not null default 10,
+  direction text not null default 'higher',
+  prefer boolean not null default true,
+  position integer not null default 0
+);
+
+alter table public.houses
+  add column if not exists custom jsonb not null default '{}'::jsonb;
@@ -0,0 +1,7 @@
+alter table public.houses
+  add column if not exists lat double precision,
+  add column if not exists lng double precision;
+
+alter table public.destinations
+  add column if not exists lat double precision,
+  add column if not exists lng double precision;
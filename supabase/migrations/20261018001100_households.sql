@@ -0,0 +1,219 @@
+create table if not exists public.households (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.household_members (
+  household_id uuid not null references public.households (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  primary key (household_id, user_id)
+);
+
+create table if not exists public.household_invites (
+  token uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  created_by uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '7 days',
+  accepted_by uuid references auth.users (id) on delete set null,
+  accepted_at timestamptz
+);
+
+-- Security definer so policies on household_members can use it without
+-- recursing into their own policy.
+create or replace function public.is_household_member(target uuid)
+returns boolean
+language sql
+security definer
+stable
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.household_members
+    where household_id = target and user_id = auth.uid()
+  );
+$$;
+
+-- Creates a household for the signed-in user.
+create or replace function public.create_household(household_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  insert into public.households (name) values (household_name)
+  returning id into new_id;
+  insert into public.household_members (household_id, user_id)
+  values (new_id, auth.uid());
+  return new_id;
+end;
+$$;
+
+-- Hands rows saved before sign-in existed to one household. Only the project
+-- owner can run it, once, from the SQL editor after creating their household:
+--   select public.claim_legacy_rows('<household id>');
+create or replace function public.claim_legacy_rows(target uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.houses set household_id = target where household_id is null;
+  update public.weight_profiles set household_id = target where household_id is null;
+  update public.destinations set household_id = target where household_id is null;
+  update public.saved_filters set household_id = target where household_id is null;
+  update public.custom_attributes set household_id = target where household_id is null;
+  update public.house_history set household_id = target where household_id is null;
+end;
+$$;
+
+revoke execute on function public.claim_legacy_rows(uuid)
+  from public, anon, authenticated;
+
+create or replace function public.accept_household_invite(invite_token uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.household_invites;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+  select * into invite from public.household_invites
+  where token = invite_token
+    and accepted_at is null
+    and expires_at > now();
+  if invite is null then
+    raise exception 'Invite is invalid or has expired';
+  end if;
+
+  insert into public.household_members (household_id, user_id)
+  values (invite.household_id, auth.uid())
+  on conflict do nothing;
+  update public.household_invites
+  set accepted_by = auth.uid(), accepted_at = now()
+  where token = invite_token;
+  return invite.household_id;
+end;
+$$;
+
+alter table public.houses add column if not exists household_id uuid
+  references public.households (id) on delete cascade;
+alter table public.weight_profiles add column if not exists household_id uuid
+  references public.households (id) on delete cascade;
+alter table public.destinations add column if not exists household_id uuid
+  references public.households (id) on delete cascade;
+alter table public.saved_filters add column if not exists household_id uuid
+  references public.households (id) on delete cascade;
+alter table public.custom_attributes add column if not exists household_id uuid
+  references public.households (id) on delete cascade;
+alter table public.house_history add column if not exists household_id uuid
+  references public.households (id) on delete cascade;
+
+-- Destination ids such as the default 'a-and-g' repeat across households.
+alter table public.destinations drop constraint if exists destinations_pkey;
+create unique index if not exists destinations_household_id_id_key
+  on public.destinations (household_id, id);
+
+create index if not exists houses_household_id_idx on public.houses (household_id);
+create index if not exists weight_profiles_household_id_idx
+  on public.weight_profiles (household_id);
+create index if not exists saved_filters_household_id_idx
+  on public.saved_filters (household_id);
+create index if not exists custom_attributes_household_id_idx
+  on public.custom_attributes (household_id);
+create index if not exists house_history_household_id_idx
+  on public.house_history (household_id);
+
+alter table public.households enable row level security;
+alter table public.household_members enable row level security;
+alter table public.household_invites enable row level security;
+alter table public.houses enable row level security;
+alter table public.weight_profiles enable row level security;
+alter table public.destinations enable row level security;
+alter table public.saved_filters enable row level security;
+alter table public.custom_attributes enable row level security;
+alter table public.house_history enable row level security;
+
+create policy "members read their household" on public.households
+  for select using (public.is_household_member(id));
+create policy "members see each other" on public.household_members
+  for select using (public.is_household_member(household_id));
+create policy "members leave their household" on public.household_members
+  for delete using (user_id = auth.uid());
+create policy "members manage invites" on public.household_invites
+  for all using (public.is_household_member(household_id))
+  with check (
+    public.is_household_member(household_id) and created_by = auth.uid()
+  );
+
+create policy "household houses" on public.houses
+  for all using (public.is_household_member(household_id))
+  with check (public.is_household_member(household_id));
+create policy "household weight profiles" on public.weight_profiles
+  for all using (public.is_household_member(household_id))
+  with check (public.is_household_member(household_id));
+create policy "household destinations" on public.destinations
+  for all using (public.is_household_member(household_id))
+  with check (public.is_household_member(household_id));
+create policy "household saved filters" on public.saved_filters
+  for all using (public.is_household_member(household_id))
+  with check (public.is_household_member(household_id));
+create policy "household custom attributes" on public.custom_attributes
+  for all using (public.is_household_member(household_id))
+  with check (public.is_household_member(household_id));
+create policy "household house history" on public.house_history
+  for all using (public.is_household_member(household_id))
+  with check (public.is_household_member(household_id));
+
+-- Photos live in a folder named after their household. Photos uploaded before
+-- households existed sit in a folder named after their house instead.
+create or replace function public.is_household_photo(object_name text)
+returns boolean
+language sql
+security definer
+stable
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.household_members m
+    where m.user_id = auth.uid()
+      and (
+        m.household_id::text = (storage.foldername(object_name))[1]
+        or exists (
+          select 1 from public.houses h
+          where h.household_id = m.household_id
+            and h.id::text = (storage.foldername(object_name))[1]
+        )
+      )
+  );
+$$;
+
+-- The bucket is private from now on; the app shows photos through signed URLs.
+update storage.buckets set public = false where id = 'house-photos';
+
+drop policy if exists "house photos are readable" on storage.objects;
+drop policy if exists "house photos can be uploaded" on storage.objects;
+drop policy if exists "house photos can be deleted" on storage.objects;
+create policy "house photos are readable" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'house-photos' and public.is_household_photo(name));
+create policy "house photos can be uploaded" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'house-photos' and public.is_household_photo(name));
+create policy "house photos can be deleted" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'house-photos' and public.is_household_photo(name));
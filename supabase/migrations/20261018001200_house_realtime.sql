@@ -0,0 +1,62 @@
+-- Stamp every house write with its author so partners can see who changed what.
+alter table public.houses
+  add column if not exists updated_by uuid references auth.users (id) on delete set null,
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.stamp_house_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_by := auth.uid();
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_house_change on public.houses;
+create trigger stamp_house_change
+  before insert or update on public.houses
+  for each row execute function public.stamp_house_change();
+
+-- Members can't read auth.users, so keep each member's email alongside them.
+alter table public.household_members
+  add column if not exists email text;
+
+create or replace function public.set_member_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select email into new.email from auth.users where id = new.user_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_member_email on public.household_members;
+create trigger set_member_email
+  before insert on public.household_members
+  for each row execute function public.set_member_email();
+
+update public.household_members m
+  set email = u.email
+  from auth.users u
+  where u.id = m.user_id and m.email is null;
+
+-- Deletes only carry the primary key unless the whole old row is logged.
+alter table public.houses replica identity full;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'houses'
+  ) then
+    alter publication supabase_realtime add table public.houses;
+  end if;
+end;
+$$;
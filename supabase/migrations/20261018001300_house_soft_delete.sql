@@ -0,0 +1,3 @@
+-- Deleted houses stay in the table until purged from the trash.
+alter table public.houses
+  add column if not exists deleted_at timestamptz;